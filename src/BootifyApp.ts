@@ -1,10 +1,41 @@
 import fastify, { FastifyInstance, FastifyReply, FastifyRequest, FastifyServerOptions } from 'fastify'
+import { extname } from 'path'
 import { ZodObject } from 'zod'
 import { AppConfig } from './config/AppConfig'
 import { DEFAULT_SERVER_HOST, DEFAULT_SERVER_PORT } from './constants'
-import { FastifyMiddleware } from './core/decorators'
-import { Constructor, container } from './core/di-container'
-import { normalizePrefix, registerControllers } from './core/router'
+import { MiddlewareLike } from './core/decorators'
+import {
+    Constructor,
+    Container,
+    container,
+    DependencyValidationError,
+    DiToken,
+    RegistrationOptions,
+} from './core/di-container'
+import {
+    createExceptionHandler,
+    DefaultExceptionFilter,
+    ExceptionFilter,
+    ExceptionFilterLike,
+    findExceptionFilter,
+    toHttpException,
+} from './core/exception-filters'
+import { Guard, InterceptorLike } from './core/guards'
+import { ModuleRef, resolveModuleGraph } from './core/module'
+import { ensureMultipartPlugin, hasUploadRoutes, MultipartOptions } from './core/multipart'
+import { VersioningOptions } from './core/versioning'
+import {
+    instantiate,
+    normalizePrefix,
+    registerControllers,
+    toFastifyMiddleware,
+} from './core/router'
+import {
+    HealthCheckOptions,
+    HealthService,
+    registerHealthRoutes,
+    SchedulerHealthIndicator,
+} from './health'
 import {
     createLogger,
     ILogger,
@@ -13,12 +44,50 @@ import {
     RequestContextProvider,
     StreamingStartupLogger
 } from './logging'
+import {
+    OpenApiDocument,
+    OpenApiGenerator,
+    OpenApiServeOptions,
+    registerOpenApiRoutes,
+    writeOpenApiDocument,
+} from './openapi'
+import { BufferedEventBusService } from './events/buffered-event-bus.service'
+import { ContextExtractor, createContextMiddleware } from './middleware/context.middleware'
 import { SchedulerService } from './scheduling/scheduler.service'
+import { registerWebSocketGateways, WebSocketOptions } from './websocket'
 
 export type PluginRegistrationFn = (app: FastifyInstance) => Promise<void> | void
 export type ErrorHandlerFn = (error: Error, request: FastifyRequest, reply: FastifyReply) => Promise<void> | void
 export type LifecycleHookFn = (app: FastifyInstance) => Promise<void> | void
 export type LoggerConfigFn = (builder: LoggerBuilder) => LoggerBuilder
+export type DependencyValidationMode = 'off' | 'warn' | 'strict'
+export type ShutdownHookFn = (signal: string) => Promise<void> | void
+
+export interface GracefulShutdownOptions {
+    /** Signals starting the shutdown. Defaults to SIGTERM and SIGINT. */
+    signals?: NodeJS.Signals[]
+    /**
+     * How long to keep serving once readiness fails, so that load balancers stop
+     * routing new requests first. Defaults to 0.
+     */
+    readinessDelay?: number
+    /**
+     * How long in-flight requests get to finish once the server stops accepting
+     * connections. Their connections are closed afterwards. Defaults to 10s.
+     */
+    drainTimeout?: number
+    /** Deadline of the whole shutdown, after which the process exits with code 1. Defaults to 30s. */
+    timeout?: number
+    /**
+     * How long the logger gets to flush and close its transports once the shutdown
+     * finished or hit `timeout`. Defaults to 5s.
+     */
+    flushTimeout?: number
+}
+
+const DEFAULT_DRAIN_TIMEOUT = 10000
+const DEFAULT_SHUTDOWN_TIMEOUT = 30000
+const DEFAULT_FLUSH_TIMEOUT = 5000
 
 /**
  * Options for registering controllers
@@ -37,6 +106,7 @@ export interface ControllerRegistrationOptions {
 interface ControllerGroup {
     controllers: Constructor[]
     prefix: string
+    container?: Container
 }
 
 export class BootifyApp {
@@ -48,13 +118,35 @@ export class BootifyApp {
     private hostname: string = DEFAULT_SERVER_HOST
     private basePrefix: string = ''
     private controllerGroups: ControllerGroup[] = []
+    private modules: Constructor[] = []
+    // The app container followed by the module containers, in dependency order
+    private containers: Container[] = []
     private plugins: PluginRegistrationFn[] = []
+    private contextExtractor?: ContextExtractor
     private beforeStartHooks: LifecycleHookFn[] = []
     private afterStartHooks: LifecycleHookFn[] = []
+    private shutdownHooks: ShutdownHookFn[] = []
+    private shutdownOptions: GracefulShutdownOptions = {}
+    private shutdownPromise?: Promise<number>
     private customErrorHandler?: ErrorHandlerFn
     private enableScheduler: boolean = true
     private loggerConfigFn?: LoggerConfigFn
     private serviceName: string = 'bootify-app'
+    private container: Container = container
+    private dependencyValidation: DependencyValidationMode = 'warn'
+    private providerOverrides = new Map<DiToken, RegistrationOptions>()
+    private globalGuards: Guard[] = []
+    private globalInterceptors: InterceptorLike[] = []
+    private globalFilters: ExceptionFilterLike[] = []
+    private openApiOptions?: OpenApiServeOptions
+    // Keyed by API version, or by '' when versioning is off
+    private openApiDocuments = new Map<string, OpenApiDocument>()
+    private versioning?: VersioningOptions
+    private multipartOptions?: MultipartOptions
+    private healthOptions?: HealthCheckOptions
+    private health?: HealthService
+    private gateways: Constructor[] = []
+    private webSocketOptions: WebSocketOptions = {}
     private fastifyOptions: FastifyServerOptions = {
         logger: false,
         ignoreTrailingSlash: true,
@@ -83,6 +175,147 @@ export class BootifyApp {
         return this
     }
 
+    /**
+     * Use a specific DI container instead of the global one.
+     * Pass a child container to keep providers registered for this app
+     * (or test suite) isolated from other instances in the same process.
+     *
+     * @example
+     * const appContainer = container.createChild()
+     * appContainer.register(DB_POOL, { useValue: tenantPool })
+     * createBootify().useContainer(appContainer)
+     */
+    useContainer(diContainer: Container): this {
+        this.container = diContainer
+        return this
+    }
+
+    getContainer(): Container {
+        return this.container
+    }
+
+    /**
+     * The app container followed by the module containers, in dependency order.
+     * Module containers are only available after build().
+     */
+    getContainers(): Container[] {
+        return this.containers.length > 0 ? this.containers : [this.container]
+    }
+
+    /**
+     * Replace the provider of a token at build time, in the app container and in
+     * any module that provides it. Mostly used by tests to swap in mocks.
+     *
+     * @example
+     * createBootify().overrideProvider(UserRepository, { useValue: fakeRepository })
+     */
+    overrideProvider(token: DiToken, registration: RegistrationOptions): this {
+        this.providerOverrides.set(token, registration)
+        return this
+    }
+
+    /**
+     * Controls the dependency graph check run by build() before any provider is created.
+     * 'warn' (default) logs missing providers, scope mismatches and cycles,
+     * 'strict' fails the build on them and 'off' skips the check.
+     */
+    useDependencyValidation(mode: DependencyValidationMode): this {
+        this.dependencyValidation = mode
+        return this
+    }
+
+    /**
+     * Generate an OpenAPI 3.1 document from the registered controllers at build time,
+     * and serve it with Swagger UI at `path` (default `/docs`).
+     *
+     * @example
+     * createBootify()
+     *   .useControllers([OrderController])
+     *   .enableOpenApi({
+     *     info: { title: 'Orders', version: '2.0.0' },
+     *     schemas: { Order: OrderSchema },
+     *     authManager,
+     *     outputFile: './openapi.json',
+     *   })
+     */
+    enableOpenApi(options: OpenApiServeOptions = {}): this {
+        this.openApiOptions = options
+        return this
+    }
+
+    /**
+     * The OpenAPI document generated by build(), when enableOpenApi() was called.
+     * With versioning, the document of the given version, or of the latest one.
+     */
+    getOpenApiDocument(version?: string): OpenApiDocument | undefined {
+        if (version !== undefined) return this.openApiDocuments.get(version)
+        return Array.from(this.openApiDocuments.values()).pop()
+    }
+
+    /**
+     * Serve controllers and routes as the API versions set with `@Version()`, under
+     * a path segment (`/v2/users`), a header (`X-API-Version: 2`) or an Accept
+     * parameter (`application/json;v=2`).
+     *
+     * @example
+     * createBootify().enableVersioning({
+     *     type: 'uri',
+     *     defaultVersion: '1',
+     *     deprecations: { '1': { sunset: new Date('2026-01-01') } },
+     * })
+     */
+    enableVersioning(options: VersioningOptions): this {
+        this.versioning = options
+        return this
+    }
+
+    /**
+     * Serve health reports at `/health`, `/health/live` and `/health/ready` for
+     * Kubernetes probes and load balancers. The checks are the given indicators, those
+     * bound to `HEALTH_INDICATOR`, and the scheduler's when it is enabled. Readiness
+     * fails until the app has started.
+     *
+     * @example
+     * createBootify().useHealthChecks({
+     *     indicators: [new TokenStorageHealthIndicator(redisTokenStorage)],
+     *     timeout: 2000,
+     * })
+     */
+    useHealthChecks(options: HealthCheckOptions = {}): this {
+        this.healthOptions = options
+        return this
+    }
+
+    /**
+     * Configure multipart/form-data parsing of `@UploadedFile` and `@UploadedFiles`
+     * routes: size limits, accepted file types, and memory or disk storage.
+     * Requires `@fastify/multipart`, which is registered when a route takes uploads.
+     *
+     * @example
+     * createBootify().useMultipart({
+     *     limits: { fileSize: 10 * 1024 * 1024, files: 5 },
+     *     allowedMimeTypes: ['image/*', 'application/pdf'],
+     *     storage: 'disk',
+     * })
+     */
+    useMultipart(options: MultipartOptions = {}): this {
+        this.multipartOptions = options
+        return this
+    }
+
+    /**
+     * Mount `@WebSocketGateway` classes on the app. Requires `@fastify/websocket`.
+     * Gateways with `auth` validate the handshake token with the given AuthManager.
+     *
+     * @example
+     * createBootify().useWebSocketGateways([ChatGateway], { authManager })
+     */
+    useWebSocketGateways(gateways: Constructor[], options: WebSocketOptions = {}): this {
+        this.gateways.push(...gateways)
+        this.webSocketOptions = { ...this.webSocketOptions, ...options }
+        return this
+    }
+
     useConfig(schema: ZodObject<any>): this {
         AppConfig.initialize(schema)
         return this
@@ -125,23 +358,89 @@ export class BootifyApp {
         return this
     }
 
+    /**
+     * Register a root module. Its import graph is walked at build time: each module's
+     * providers are registered in a module-scoped container and its controllers are
+     * mounted under basePrefix + module prefix.
+     *
+     * @example
+     * createBootify()
+     *   .useModule(AppModule)
+     */
+    useModule(module: Constructor): this {
+        this.modules.push(module)
+        return this
+    }
+
+    /**
+     * Add values to the request context of every request, next to its `requestId`.
+     *
+     * @example
+     * createBootify().useContextExtractor((req) => ({ tenantId: req.headers['x-tenant-id'] }))
+     */
+    useContextExtractor(extractor: ContextExtractor): this {
+        this.contextExtractor = extractor
+        return this
+    }
+
     usePlugin(plugin: PluginRegistrationFn): this {
         this.plugins.push(plugin)
         return this
     }
 
-    useMiddleware(middleware: FastifyMiddleware): this {
+    /**
+     * Run a middleware on every request. Class-based middleware (`@Middleware()`)
+     * is resolved from the app container.
+     */
+    useMiddleware(middleware: MiddlewareLike): this {
         this.plugins.push(async (app) => {
-            app.addHook('onRequest', middleware)
+            app.addHook('onRequest', toFastifyMiddleware(middleware, this.container))
         })
         return this
     }
 
-    useMiddlewares(middlewares: FastifyMiddleware[]): this {
+    useMiddlewares(middlewares: MiddlewareLike[]): this {
         middlewares.forEach((middleware) => this.useMiddleware(middleware))
         return this
     }
 
+    /**
+     * Register guards that run before every controller handler, ahead of
+     * controller and method guards.
+     *
+     * @example
+     * createBootify().useGlobalGuards(AuthGuard)
+     */
+    useGlobalGuards(...guards: Guard[]): this {
+        this.globalGuards.push(...guards)
+        return this
+    }
+
+    /**
+     * Register interceptors that wrap every controller handler, outside
+     * controller and method interceptors.
+     */
+    useGlobalInterceptors(...interceptors: InterceptorLike[]): this {
+        this.globalInterceptors.push(...interceptors)
+        return this
+    }
+
+    /**
+     * Register exception filters that handle errors no controller or method filter
+     * handled, including errors raised outside handlers (middleware, validation).
+     * The default filter renders anything left as application/problem+json.
+     *
+     * @example
+     * createBootify().useGlobalFilters(new DatabaseErrorFilter())
+     */
+    useGlobalFilters(...filters: ExceptionFilterLike[]): this {
+        this.globalFilters.push(...filters)
+        return this
+    }
+
+    /**
+     * Replace exception filtering with a single error handler.
+     */
     useErrorHandler(handler: ErrorHandlerFn): this {
         this.customErrorHandler = handler
         return this
@@ -157,6 +456,28 @@ export class BootifyApp {
         return this
     }
 
+    /**
+     * Register a hook run during shutdown, once the server has drained and before
+     * components' `onShutdown` hooks. Hooks run in registration order; a failing hook
+     * doesn't stop the others but makes the process exit with code 1.
+     */
+    onShutdown(hook: ShutdownHookFn): this {
+        this.shutdownHooks.push(hook)
+        return this
+    }
+
+    /**
+     * Configure the shutdown started by SIGTERM/SIGINT: readiness fails first, then
+     * in-flight requests drain, then shutdown hooks run, all within `timeout`.
+     *
+     * @example
+     * createBootify().useGracefulShutdown({ readinessDelay: 5000, drainTimeout: 15000, timeout: 30000 })
+     */
+    useGracefulShutdown(options: GracefulShutdownOptions): this {
+        this.shutdownOptions = { ...this.shutdownOptions, ...options }
+        return this
+    }
+
     useScheduler(enabled: boolean = true): this {
         this.enableScheduler = enabled
         return this
@@ -177,6 +498,98 @@ export class BootifyApp {
         return this
     }
 
+    private async registerOpenApi(controllerGroups: ControllerGroup[]): Promise<void> {
+        const { path, outputFile, uiAssetsUrl, ...options } = this.openApiOptions!
+        this.startupLogger.logComponentStart('OpenAPI', 'Generating API documentation')
+
+        const generator = new OpenApiGenerator({
+            ...options,
+            info: { title: this.serviceName, ...options.info },
+            versioning: this.versioning,
+        })
+        const groups = controllerGroups.map((group) => ({
+            controllers: group.controllers,
+            prefix: normalizePrefix(this.basePrefix + group.prefix),
+        }))
+
+        const versions = generator.getVersions(groups)
+        if (versions.length === 0) {
+            const document = generator.generate(groups)
+            this.openApiDocuments.set('', document)
+            registerOpenApiRoutes(this.app, document, { path, uiAssetsUrl })
+            if (outputFile) {
+                await writeOpenApiDocument(document, outputFile)
+            }
+        } else {
+            const documents: Record<string, OpenApiDocument> = {}
+            for (const version of versions) {
+                const document = generator.generate(groups, version)
+                this.openApiDocuments.set(version, document)
+                documents[`v${version}`] = document
+                if (outputFile) {
+                    const extension = extname(outputFile)
+                    const baseName = outputFile.slice(0, outputFile.length - extension.length)
+                    await writeOpenApiDocument(document, `${baseName}.v${version}${extension}`)
+                }
+            }
+            registerOpenApiRoutes(this.app, documents, { path, uiAssetsUrl })
+        }
+
+        this.startupLogger.logComponentComplete()
+    }
+
+    private createErrorHandler(): ErrorHandlerFn {
+        const defaultFilter = this.container.resolve<ExceptionFilter>(DefaultExceptionFilter)
+        const filters: ExceptionFilter[] = [
+            ...this.globalFilters.map((filter) => instantiate<ExceptionFilter>(filter, this.container)),
+            defaultFilter,
+        ]
+        const handleException = createExceptionHandler(filters)
+
+        return (error, request, reply) => {
+            // Errors left to the default filter are unexpected, so server errors are logged
+            const handledByDefault = findExceptionFilter(filters, error) === defaultFilter
+            if (handledByDefault && toHttpException(error).statusCode >= 500) {
+                this.logger.error('Request failed', error)
+            }
+            return handleException(error, request, reply)
+        }
+    }
+
+    /**
+     * Calls `onInit` on the singletons created so far. Each component's hook runs once,
+     * so this is called again after steps that create components.
+     */
+    private async callInitHooks(): Promise<void> {
+        for (const diContainer of this.containers) {
+            await diContainer.callLifecycleHook('onInit')
+        }
+    }
+
+    private validateDependencies(modules: ModuleRef[]): void {
+        // Module providers are registered globally by their decorators too; their module checks them
+        const moduleTokens = new Set(modules.flatMap((moduleRef) => Array.from(moduleRef.providedTokens)))
+        for (const diContainer of this.containers) {
+            // Module containers only check their own providers; the app container covers the rest
+            const result = diContainer.validate(diContainer === this.container)
+            if (diContainer === this.container) {
+                result.missing = result.missing.filter((issue) => !moduleTokens.has(issue.token))
+                result.scopeMismatches = result.scopeMismatches.filter((issue) => !moduleTokens.has(issue.token))
+                result.valid =
+                    result.missing.length === 0 &&
+                    result.scopeMismatches.length === 0 &&
+                    result.cycles.length === 0
+            }
+            if (result.valid) continue
+
+            const error = new DependencyValidationError(result)
+            if (this.dependencyValidation === 'strict') {
+                throw error
+            }
+            this.logger.warn(error.message)
+        }
+    }
+
     private initializeLogger(): ILogger {
         let builder = createLogger()
             .setServiceName(this.serviceName)
@@ -205,41 +618,109 @@ export class BootifyApp {
         this.logger = this.initializeLogger()
 
         // Initialize startup logger (still uses the streaming one for nice output)
-        this.startupLogger = container.resolve<StreamingStartupLogger>(StreamingStartupLogger)
+        this.startupLogger = this.container.resolve<StreamingStartupLogger>(StreamingStartupLogger)
 
         this.startupLogger.logStartupBanner()
 
         this.app = fastify(this.fastifyOptions)
 
+        // Every request runs in its own context, which also holds its request-scoped providers
+        this.app.addHook('onRequest', createContextMiddleware(this.contextExtractor))
+
         for (const plugin of this.plugins) {
             await plugin(this.app)
         }
 
+        // Walk the module graph; this fails fast on module boundary violations
+        this.providerOverrides.forEach((registration, token) => {
+            this.container.register(token, registration)
+        })
+        const modules = resolveModuleGraph(this.modules, this.container, this.providerOverrides)
+        this.containers = [this.container, ...modules.map((moduleRef) => moduleRef.container)]
+        const controllerGroups: ControllerGroup[] = [
+            ...this.controllerGroups,
+            ...modules.map((moduleRef) => ({
+                controllers: moduleRef.options.controllers || [],
+                prefix: normalizePrefix(moduleRef.options.prefix || ''),
+                container: moduleRef.container,
+            })),
+        ]
+
+        if (this.dependencyValidation !== 'off') {
+            this.validateDependencies(modules)
+        }
+
+        // Resolve async and eager providers before any route can inject them
+        this.startupLogger.logComponentStart('Dependency Container', 'Resolving async and eager providers')
+        for (const diContainer of this.containers) {
+            await diContainer.init()
+        }
+        this.startupLogger.logComponentComplete()
+
         // Register each controller group with its combined prefix
-        const totalControllers = this.controllerGroups.reduce((sum, g) => sum + g.controllers.length, 0)
+        const totalControllers = controllerGroups.reduce((sum, g) => sum + g.controllers.length, 0)
+        const allControllers = controllerGroups.flatMap((group) => group.controllers)
+        if (this.multipartOptions || hasUploadRoutes(allControllers)) {
+            await ensureMultipartPlugin(this.app, this.multipartOptions)
+        }
+
         if (totalControllers > 0) {
             this.startupLogger.logPhaseStart('Registering Controllers')
             this.startupLogger.logComponentStart('Controllers', `${totalControllers} found`)
 
-            for (const group of this.controllerGroups) {
+            for (const group of controllerGroups) {
                 // Combine basePrefix + groupPrefix
                 const combinedPrefix = normalizePrefix(this.basePrefix + group.prefix)
-                registerControllers(this.app, group.controllers, combinedPrefix)
+                registerControllers(
+                    this.app,
+                    group.controllers,
+                    combinedPrefix,
+                    group.container || this.container,
+                    {
+                        guards: this.globalGuards,
+                        interceptors: this.globalInterceptors,
+                        versioning: this.versioning,
+                        multipart: this.multipartOptions,
+                        logger: this.logger,
+                    }
+                )
             }
 
             this.startupLogger.logComponentComplete()
         }
 
-        if (this.customErrorHandler) {
-            this.app.setErrorHandler(this.customErrorHandler)
+        if (this.gateways.length > 0) {
+            this.startupLogger.logComponentStart('WebSocket Gateways', `${this.gateways.length} found`)
+            await registerWebSocketGateways(this.app, this.gateways, this.container, this.webSocketOptions)
+            this.startupLogger.logComponentComplete()
         }
 
-        this.startupLogger.logStartupComplete()
+        if (this.openApiOptions) {
+            await this.registerOpenApi(controllerGroups)
+        }
 
+        this.app.setErrorHandler(this.customErrorHandler || this.createErrorHandler())
+
+        // Framework services are created before OnInit runs, so they get the hook too
         if (this.enableScheduler) {
-            this.scheduler = container.resolve(SchedulerService)
+            this.scheduler = this.container.resolve(SchedulerService)
+        }
+
+        if (this.healthOptions) {
+            // Readiness and indicators belong to the app, so apps built on child
+            // containers of one parent don't share the parent's instance
+            this.container.register(HealthService, { useClass: HealthService })
+            this.health = this.container.resolve<HealthService>(HealthService)
+            this.health.addIndicator(...(this.healthOptions.indicators || []))
+            if (this.scheduler) this.health.addIndicator(new SchedulerHealthIndicator(this.scheduler))
+            registerHealthRoutes(this.app, this.health, this.healthOptions)
         }
 
+        // Run async component setup (OnInit) in dependency order
+        await this.callInitHooks()
+
+        this.startupLogger.logStartupComplete()
+
         const start = async () => {
             try {
                 for (const hook of this.beforeStartHooks) {
@@ -250,11 +731,18 @@ export class BootifyApp {
                     this.startupLogger.logComponentStart('Scheduler', 'Starting scheduled jobs')
                     await this.scheduler.start()
                     this.startupLogger.logComponentComplete()
+                    // Components with scheduled jobs may have been created by the scheduler
+                    await this.callInitHooks()
                 }
 
                 await this.app.listen({ port: this.port, host: this.hostname })
                 this.startupLogger.logStartupSummary(this.port, this.hostname)
 
+                for (const diContainer of this.containers) {
+                    await diContainer.callLifecycleHook('onReady')
+                }
+                this.health?.setReady(true)
+
                 // Log with the new logger
                 this.logger.info('Application started successfully', {
                     port: this.port,
@@ -287,24 +775,147 @@ export class BootifyApp {
         await start()
     }
 
-    private setupGracefulShutdown(): void {
-        const shutdown = async (signal: string) => {
-            this.logger.info(`Received ${signal}, shutting down gracefully...`)
+    /**
+     * Shuts the app down, in order:
+     * 1. readiness starts failing, and keeps failing for `readinessDelay`;
+     * 2. the server stops accepting connections and in-flight requests drain, for up to `drainTimeout`;
+     * 3. the scheduler stops, waiting for running jobs;
+     * 4. the buffered event bus processes its queued events;
+     * 5. `onShutdown()` hooks run, then components' `onShutdown` in reverse dependency order;
+     * 6. the logger's transports are flushed and closed, within `flushTimeout`.
+     *
+     * A failing step is logged and the next one still runs. Steps 1 to 5 must finish
+     * within `timeout`; the logger then gets its own `flushTimeout`, so that the logs of
+     * a late shutdown are kept. Before `build()`, only the shutdown hooks run.
+     * Later calls return the result of the first.
+     * @returns The process exit code: 0, or 1 when a step failed or the shutdown timed out.
+     */
+    shutdown(signal: string = 'shutdown'): Promise<number> {
+        if (!this.shutdownPromise) {
+            this.shutdownPromise = this.runShutdown(signal)
+        }
+        return this.shutdownPromise
+    }
+
+    private async runShutdown(signal: string): Promise<number> {
+        const { timeout = DEFAULT_SHUTDOWN_TIMEOUT, flushTimeout = DEFAULT_FLUSH_TIMEOUT } =
+            this.shutdownOptions
+
+        // The logger is created by build(), so there's none when the app was never built
+        this.logger?.info(`Received ${signal}, shutting down gracefully...`)
+        let errors: Error[]
+        try {
+            errors = await withDeadline(
+                this.runShutdownSteps(signal),
+                timeout,
+                `Shutdown did not complete within ${timeout}ms`
+            )
+        } catch (error) {
+            errors = [error as Error]
+        }
 
-            if (this.scheduler) {
-                await this.scheduler.stop()
+        if (errors.length > 0) {
+            const meta = { errors: errors.map((error) => error.message) }
+            if (this.logger) this.logger.error('Shutdown completed with errors', errors[0], meta)
+            else console.error('Shutdown completed with errors', meta)
+        } else {
+            this.logger?.info('Shutdown complete')
+        }
+        if (!this.logger) return errors.length > 0 ? 1 : 0
+
+        try {
+            await withDeadline(
+                (async () => {
+                    await this.logger.flush?.()
+                    await this.logger.close?.()
+                })(),
+                flushTimeout,
+                `Logs were not flushed within ${flushTimeout}ms`
+            )
+        } catch (error) {
+            console.error('Failed to flush logs during shutdown', error)
+            errors.push(error as Error)
+        }
+        return errors.length > 0 ? 1 : 0
+    }
+
+    private async runShutdownSteps(signal: string): Promise<Error[]> {
+        const { readinessDelay = 0, drainTimeout = DEFAULT_DRAIN_TIMEOUT } = this.shutdownOptions
+        const errors: Error[] = []
+        const step = async (name: string, fn: () => unknown) => {
+            try {
+                await fn()
+            } catch (error) {
+                const failure = error instanceof Error ? error : new Error(String(error))
+                this.logger?.error(`Shutdown step '${name}' failed`, failure)
+                errors.push(failure)
             }
+        }
 
+        this.health?.setReady(false, 'Application is shutting down')
+        if (readinessDelay > 0) {
+            await new Promise((resolve) => setTimeout(resolve, readinessDelay))
+        }
+
+        if (this.app) await step('server', () => this.closeServer(drainTimeout))
+        await step('scheduler', () => this.scheduler?.stop())
+        if (this.container.isRegistered(BufferedEventBusService)) {
+            await step('event bus', () =>
+                this.container.resolve<BufferedEventBusService>(BufferedEventBusService).shutdown()
+            )
+        }
+        for (const hook of this.shutdownHooks) {
+            await step('shutdown hook', () => hook(signal))
+        }
+
+        // Tear components down (OnShutdown) in reverse dependency order
+        for (const diContainer of [...this.containers].reverse()) {
+            const hookErrors = await diContainer.callLifecycleHook('onShutdown', {
+                reverse: true,
+                args: [signal],
+                continueOnError: true,
+            })
+            hookErrors.forEach((error) => this.logger?.error('Shutdown hook failed', error))
+            errors.push(...hookErrors)
+        }
+        return errors
+    }
+
+    /**
+     * Closes the server, letting in-flight requests finish for up to `drainTimeout`
+     * before closing their connections.
+     */
+    private async closeServer(drainTimeout: number): Promise<void> {
+        const timer = setTimeout(() => {
+            this.logger.warn(`Requests still in flight after ${drainTimeout}ms, closing their connections`)
+            this.app.server.closeAllConnections()
+        }, drainTimeout)
+        try {
             await this.app.close()
-            this.logger.info('Shutdown complete')
-            process.exit(0)
+        } finally {
+            clearTimeout(timer)
         }
+    }
 
-        process.on('SIGTERM', () => shutdown('SIGTERM'))
-        process.on('SIGINT', () => shutdown('SIGINT'))
+    private setupGracefulShutdown(): void {
+        const { signals = ['SIGTERM', 'SIGINT'] } = this.shutdownOptions
+        for (const signal of signals) {
+            // A second signal gets the default behavior, so it kills a stuck shutdown
+            process.once(signal, async () => {
+                process.exit(await this.shutdown(signal))
+            })
+        }
     }
 }
 
+function withDeadline<T>(promise: Promise<T>, ms: number, message: string): Promise<T> {
+    let timer: NodeJS.Timeout | undefined
+    const expired = new Promise<never>((_resolve, reject) => {
+        timer = setTimeout(() => reject(new Error(message)), Math.max(ms, 0))
+    })
+    return Promise.race([promise, expired]).finally(() => clearTimeout(timer))
+}
+
 export function createBootify(): BootifyApp {
     return new BootifyApp()
 }
@@ -1,11 +1,15 @@
 import fastify, { FastifyInstance, FastifyServerOptions } from 'fastify'
-import { ZodError, ZodObject } from 'zod'
+import { ZodObject } from 'zod'
 import { AppConfig } from './config/AppConfig'
 import { DEFAULT_SERVER_HOST, DEFAULT_SERVER_PORT } from './constants'
 import { FastifyMiddleware } from './core/decorators'
-import { Constructor } from './core/di-container'
+import { Constructor, container } from './core/di-container'
+import { DefaultExceptionFilter, toHttpException } from './core/exception-filters'
+import { ArgumentsHost } from './core/execution-context'
+import { ensureMultipartPlugin, hasUploadRoutes, MultipartOptions } from './core/multipart'
 import { registerControllers } from './core/router'
 import { intitializeLogging } from './logging'
+import { OpenApiGenerator, registerOpenApiRoutes } from './openapi'
 import { ContextExtractor, createContextMiddleware } from './middleware/context.middleware'
 import {
   createRequestLoggerOnResponse,
@@ -22,6 +26,8 @@ export interface BootifyAppOptions {
   globalMiddlewares?: FastifyMiddleware[]
   ignoreTrailingSlash?: boolean
   enableCookie?: boolean
+  /** Options of `@UploadedFile` routes, which require @fastify/multipart. */
+  multipart?: MultipartOptions
   enableRequestLogger?: boolean
   enableContextMiddleware?: boolean
   enableErrorHandler?: boolean
@@ -74,7 +80,7 @@ export async function createBootifyApp(options: BootifyAppOptions = {}) {
     startupLogger.logComponentStart('Global Middlewares')
     options.globalMiddlewares.forEach((middleware, index) => {
       app.addHook('onRequest', middleware)
-      console.log(`  ✓ Registered global middleware ${index + 1}`)
+      logger.debug(`Registered global middleware ${index + 1}`)
     })
     startupLogger.logComponentComplete('Global Middlewares')
   }
@@ -91,20 +97,13 @@ export async function createBootifyApp(options: BootifyAppOptions = {}) {
   if (options.enableErrorHandler !== false) {
     startupLogger.logComponentStart('Attaching Global ErrorHandler')
 
-    app.setErrorHandler((error, request, reply) => {
-      if (error instanceof ZodError) {
-        reply.status(400).send({
-          statusCode: 400,
-          error: 'Bad Request',
-          message: 'Validation failed',
-          details: error.issues,
-        })
-      } else if ((error as any).statusCode) {
-        reply.send(error)
-      } else {
+    app.setErrorHandler((error: Error, request, reply) => {
+      if (toHttpException(error).statusCode >= 500) {
         logger.error('Internal Server Error', error)
-        reply.status(500).send({ message: 'Internal Server Error' })
       }
+      return container
+        .resolve<DefaultExceptionFilter>(DefaultExceptionFilter)
+        .catch(error, new ArgumentsHost(request, reply))
     })
     startupLogger.logComponentComplete('Attaching Global ErrorHandler')
   }
@@ -112,36 +111,37 @@ export async function createBootifyApp(options: BootifyAppOptions = {}) {
 
 
 
+  // Resolve async and eager providers before any route can inject them
+  await container.init()
+
+  // Register controllers (if provided)
+  if (options.controllers && options.controllers.length > 0) {
+    startupLogger.logComponentStart('Registering Controllers')
+    if (options.multipart || hasUploadRoutes(options.controllers)) {
+      await ensureMultipartPlugin(app, options.multipart)
+    }
+    registerControllers(app, options.controllers, '', undefined, { multipart: options.multipart, logger })
+    startupLogger.logComponentComplete('Registering Controllers')
+  }
+
   if (options.enableSwagger) {
     startupLogger.logComponentStart('Initializing Swagger')
     const swaggerHost = options.hostname ?? 'localhost'
     const swaggerPort = options.port ?? DEFAULT_SERVER_PORT
-    const fastifySwagger = await import('@fastify/swagger')
-    const fastifySwaggerUI = await import('@fastify/swagger-ui')
-    await app.register(fastifySwagger.default, {
-      openapi: {
-        info: {
-          title: 'Bootify (Fastify) API',
-          description: 'API documentation',
-          version: '1.0.0',
-        },
-        servers: [{ url: `http://${swaggerHost}:${swaggerPort}` }],
+    const document = new OpenApiGenerator({
+      info: {
+        title: 'Bootify (Fastify) API',
+        description: 'API documentation',
+        version: '1.0.0',
       },
-    })
-
-    await app.register(fastifySwaggerUI.default, {
-      routePrefix: '/api-docs',
-    })
+      servers: [{ url: `http://${swaggerHost}:${swaggerPort}` }],
+    }).generate([{ controllers: options.controllers || [] }])
+    registerOpenApiRoutes(app, document, { path: '/api-docs' })
+    // The document used to be served here, by @fastify/swagger-ui
+    app.get('/api-docs/json', async () => document)
     startupLogger.logComponentComplete(' Swagger COnfiguiration Done')
   }
 
-  // Register controllers (if provided)
-  if (options.controllers && options.controllers.length > 0) {
-    startupLogger.logComponentStart('Registering Controllers')
-    registerControllers(app, options.controllers)
-    startupLogger.logComponentComplete('Registering Controllers')
-  }
-
   startupLogger.logStartupComplete()
 
   const start = async () => {
@@ -1,20 +1,20 @@
 import { container } from '../core/di-container'
-import { CACHE_STORE_TOKEN } from './cache.types'
+import { CACHE_STORE_TOKEN, ICacheStore } from './cache.types'
 import { InMemoryCacheStore } from './stores/in-memory-cache.store'
 
 /**
- * Checks if a user has provided a custom cache store. If not, it registers
- * the default InMemoryCacheStore. This makes the caching system work out-of-the-box.
+ * Makes sure a cache store is bound to CACHE_STORE_TOKEN. The bundled stores are
+ * selected by their conditions (CACHE_DRIVER, or InMemoryCacheStore as the fallback),
+ * so this only registers InMemoryCacheStore when nothing at all is bound.
  */
 export function bootstrapCache() {
   console.log('🔄 Bootstrapping Cache System...')
 
   if (!container.isRegistered(CACHE_STORE_TOKEN)) {
-    console.log('  - No custom cache store provided. Binding default InMemoryCacheStore.')
-    // The user didn't bind anything to the token, so we provide the default.
+    console.log('  - No cache store provided. Binding default InMemoryCacheStore.')
     container.register(CACHE_STORE_TOKEN, { useClass: InMemoryCacheStore })
-  } else {
-    console.log('  - Custom cache store detected. Skipping default binding.')
   }
+  const store = container.resolve<ICacheStore>(CACHE_STORE_TOKEN)
+  console.log(`  - Using ${store.constructor.name}.`)
   console.log('✅ Cache System bootstrapped successfully!\n')
 }
@@ -1,10 +1,11 @@
 // import { Service, Autowired } from '../decorators'
 import { Autowired, Service } from '../core/decorators'
+import type { OnShutdown } from '../core/di-container'
 import type { ICacheStore } from './cache.types'
 import { CACHE_STORE_TOKEN } from './cache.types'
 
 @Service() // Eagerly load to ensure it's ready
-export class CacheService {
+export class CacheService implements OnShutdown {
   constructor(@Autowired(CACHE_STORE_TOKEN) private readonly store: ICacheStore) { }
 
   public get<T>(key: string): Promise<T | undefined> {
@@ -18,4 +19,8 @@ export class CacheService {
   public del(key: string): Promise<void> {
     return this.store.del(key)
   }
+
+  async onShutdown(): Promise<void> {
+    await this.store.close?.()
+  }
 }
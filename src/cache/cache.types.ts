@@ -11,6 +11,8 @@ export interface ICacheStore {
   get<T>(key: string): Promise<T | undefined>
   set(key: string, value: any, ttlInSeconds?: number): Promise<void>
   del(key: string): Promise<void>
+  /** Close connections to the backend, called during graceful shutdown. */
+  close?(): Promise<void>
 }
 
 // Type guard for Bun bundler compatibility (ensures interface is not tree-shaken)
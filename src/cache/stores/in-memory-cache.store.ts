@@ -1,8 +1,11 @@
+import { ConditionalOnMissingBean } from '../../core/conditions'
 import { Service } from '../../core/decorators'
-import { ICacheStore } from '../cache.types'
+import { CACHE_STORE_TOKEN, ICacheStore } from '../cache.types'
 
 // A simple in-memory cache store using a Map.
-@Service()
+// The default store, used when no other store is bound to CACHE_STORE_TOKEN.
+@Service({ bindTo: [CACHE_STORE_TOKEN] })
+@ConditionalOnMissingBean(CACHE_STORE_TOKEN)
 export class InMemoryCacheStore implements ICacheStore {
   private readonly cache = new Map<string, { value: any; expiry: number | null }>()
 
@@ -1,7 +1,9 @@
-import { Service } from "../../core";
+import { ConditionalOnConfig, Service } from "../../core";
 import { CACHE_STORE_TOKEN, ICacheStore } from "../cache.types";
 
+// Active when CACHE_DRIVER=redis
 @Service({ bindTo: [CACHE_STORE_TOKEN] })
+@ConditionalOnConfig('CACHE_DRIVER', 'redis')
 export class RedisCacheStore implements ICacheStore {
 
 
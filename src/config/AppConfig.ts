@@ -7,6 +7,8 @@ const BaseFrameworkConfigSchema = z.object({
   SERVER_HOST: z.string().default('localhost'),
   //   LOG_LEVEL: z.enum(['debug', 'info', 'warn', 'error']).default('debug'),
   CONFIG_DEBUG: z.coerce.boolean().default(true),
+  // Comma-separated profiles for @Profile; NODE_ENV is used when unset
+  ACTIVE_PROFILES: z.string().optional(),
 })
 
 const LoggingConfigSchema = z.object({
@@ -49,7 +51,7 @@ export class AppConfig<T extends ZodRawShape> {
     this.config = this.validateConfig()
 
     // Optional debug output
-    if (this.get('CONFIG_DEBUG')) {
+    if (this.isDebugEnabled()) {
       this.logConfig()
     }
   }
@@ -82,6 +84,13 @@ export class AppConfig<T extends ZodRawShape> {
     AppConfig.instance = new AppConfig(userSchema)
   }
 
+  /**
+   * Check whether the singleton instance has been created
+   */
+  public static isInitialized(): boolean {
+    return !!AppConfig.instance
+  }
+
   private validateConfig(): FrameworkConfig & z.infer<ZodObject<T>> {
     try {
       const result = this.mergedSchema.safeParse(process.env)
@@ -112,7 +121,7 @@ export class AppConfig<T extends ZodRawShape> {
   ): (FrameworkConfig & z.infer<ZodObject<T>>)[K] {
     const value = this.config[key]
 
-    if (this.config['CONFIG_DEBUG']) {
+    if (this.isDebugEnabled()) {
       console.debug(`Config access: ${String(key)} =>`, value)
     }
 
@@ -135,6 +144,11 @@ export class AppConfig<T extends ZodRawShape> {
     return this.mergedSchema
   }
 
+  // CONFIG_DEBUG output is debug output, so a LOG_LEVEL above 'debug' turns it off
+  private isDebugEnabled(): boolean {
+    return Boolean(this.config.CONFIG_DEBUG) && ['trace', 'debug'].includes(this.config.LOG_LEVEL)
+  }
+
   /**
    * Log the current configuration (redacts sensitive fields)
    */
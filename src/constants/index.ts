@@ -40,8 +40,23 @@ export const FRAMEWORK_METADATA_KEYS = {
   VALIDATION_SCHEMA: 'bootify:validation-schema',
   PARAM_TYPES: 'bootify:param-types',
   MIDDLEWARE: 'bootify:middleware',
+  MIDDLEWARE_OPTIONS: 'bootify:middleware-options',
+  VERSION: 'bootify:version',
+  SSE: 'bootify:sse',
   AUTOWIRED_PROPERTIES: 'bootify:autowired-properties',
   AUTOWIRED_PARAMS: 'bootify:autowired-params',
+  AUTOWIRED_PARAM_OPTIONS: 'bootify:autowired-param-options',
+  AUTOWIRED_PROPERTY_OPTIONS: 'bootify:autowired-property-options',
+  COMPONENT_OPTIONS: 'bootify:component-options',
+  MODULE: 'bootify:module',
+  CONDITIONS: 'bootify:conditions',
+  HTTP_CODE: 'bootify:http-code',
+  RESPONSE_HEADERS: 'bootify:response-headers',
+  REDIRECT: 'bootify:redirect',
+  GUARDS: 'bootify:guards',
+  INTERCEPTORS: 'bootify:interceptors',
+  CATCH: 'bootify:catch',
+  FILTERS: 'bootify:filters',
 } as const
 
 // Environment Constants
@@ -0,0 +1,82 @@
+import {
+  ZodArray,
+  ZodBigInt,
+  ZodBoolean,
+  ZodBranded,
+  ZodCatch,
+  ZodDefault,
+  ZodEffects,
+  ZodLazy,
+  ZodLiteral,
+  ZodNullable,
+  ZodNumber,
+  ZodObject,
+  ZodOptional,
+  ZodPipeline,
+  ZodReadonly,
+  ZodTypeAny,
+} from 'zod'
+
+// Wrappers that don't change the type of the value they parse
+function unwrap(schema: ZodTypeAny): ZodTypeAny {
+  if (
+    schema instanceof ZodOptional ||
+    schema instanceof ZodNullable ||
+    schema instanceof ZodDefault ||
+    schema instanceof ZodCatch ||
+    schema instanceof ZodReadonly
+  ) {
+    return unwrap(schema._def.innerType)
+  }
+  if (schema instanceof ZodEffects) return unwrap(schema._def.schema)
+  if (schema instanceof ZodPipeline) return unwrap(schema._def.in)
+  if (schema instanceof ZodBranded) return unwrap(schema._def.type)
+  if (schema instanceof ZodLazy) return unwrap(schema.schema)
+  return schema
+}
+
+const isPlainObject = (value: unknown): value is Record<string, unknown> =>
+  typeof value === 'object' && value !== null && !Array.isArray(value)
+
+/**
+ * Converts the strings of a querystring or of route params to the types their schema
+ * expects, as Fastify's default validator does: numeric strings become numbers,
+ * `'true'`/`'false'` booleans, and a single value becomes an array for array schemas.
+ * Values that can't be converted are left as they are, for the schema to reject.
+ */
+export function coerceToSchema(schema: ZodTypeAny, value: unknown): unknown {
+  const target = unwrap(schema)
+
+  if (target instanceof ZodObject) {
+    if (!isPlainObject(value)) return value
+    const shape: Record<string, ZodTypeAny> = target.shape
+    const coerced: Record<string, unknown> = { ...value }
+    for (const key of Object.keys(shape)) {
+      if (key in value) coerced[key] = coerceToSchema(shape[key], value[key])
+    }
+    return coerced
+  }
+  if (target instanceof ZodArray) {
+    if (value === undefined) return value
+    return (Array.isArray(value) ? value : [value]).map((item) => coerceToSchema(target.element, item))
+  }
+  if (typeof value !== 'string') return value
+
+  if (target instanceof ZodNumber) {
+    return value.trim() !== '' && !isNaN(Number(value)) ? Number(value) : value
+  }
+  if (target instanceof ZodBigInt) {
+    try {
+      return value.trim() !== '' ? BigInt(value) : value
+    } catch {
+      return value
+    }
+  }
+  if (target instanceof ZodBoolean) {
+    return value === 'true' ? true : value === 'false' ? false : value
+  }
+  if (target instanceof ZodLiteral && typeof target.value !== 'string') {
+    return String(target.value) === value ? target.value : value
+  }
+  return value
+}
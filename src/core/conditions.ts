@@ -0,0 +1,100 @@
+import 'reflect-metadata'
+import { AppConfig } from '../config/AppConfig'
+import { METADATA_KEYS } from './decorators'
+import { Container, DiToken, ProviderCondition } from './di-container'
+
+/**
+ * Reads a configuration value from AppConfig, or from the environment
+ * when AppConfig has not been initialized.
+ */
+function getConfigValue(key: string): unknown {
+  if (AppConfig.isInitialized()) {
+    return (AppConfig.getInstance().getAll() as Record<string, unknown>)[key]
+  }
+  return process.env[key]
+}
+
+/**
+ * Returns the active profiles: ACTIVE_PROFILES (comma-separated), or NODE_ENV.
+ */
+export function getActiveProfiles(): string[] {
+  const profiles = getConfigValue('ACTIVE_PROFILES') || getConfigValue('NODE_ENV') || 'development'
+  return String(profiles)
+    .split(',')
+    .map((profile) => profile.trim())
+    .filter(Boolean)
+}
+
+/**
+ * Only registers the component while the condition holds. Conditions are evaluated
+ * when the component (or a token it is bound to) is looked up, so configuration
+ * loaded after import is taken into account.
+ * Must be placed below `@Service()` / `@Component()`, which reads it.
+ *
+ * @example
+ * @Service()
+ * @Conditional(() => process.platform === 'linux')
+ * class EpollWatcher {}
+ */
+export const Conditional = (condition: ProviderCondition): ClassDecorator => {
+  return (target: any) => {
+    if (Reflect.hasOwnMetadata(METADATA_KEYS.componentOptions, target)) {
+      throw new Error(
+        `[DI] Conditions on '${target.name}' must be placed below its @Service() / @Component() decorator.`
+      )
+    }
+    const conditions: ProviderCondition[] =
+      Reflect.getOwnMetadata(METADATA_KEYS.conditions, target) || []
+    Reflect.defineMetadata(METADATA_KEYS.conditions, [...conditions, condition], target)
+  }
+}
+
+/**
+ * Activates the component when one of the profiles is active.
+ * Prefix a profile with '!' to activate the component when it is not.
+ *
+ * @example
+ * @Service({ bindTo: [MAILER] })
+ * @Profile('production', 'staging')
+ * class SmtpMailer {}
+ */
+export const Profile = (...profiles: string[]): ClassDecorator =>
+  Conditional(() => {
+    const active = getActiveProfiles()
+    return profiles.some((profile) =>
+      profile.startsWith('!') ? !active.includes(profile.slice(1)) : active.includes(profile)
+    )
+  })
+
+/**
+ * Activates the component when a configuration value equals the expected value
+ * (compared as strings), or is set and not 'false' when no value is given.
+ *
+ * @example
+ * @Service({ bindTo: [CACHE_STORE_TOKEN] })
+ * @ConditionalOnConfig('CACHE_DRIVER', 'redis')
+ * class RedisCacheStore {}
+ */
+export const ConditionalOnConfig = (
+  key: string,
+  expected?: string | number | boolean
+): ClassDecorator =>
+  Conditional(() => {
+    const value = getConfigValue(key)
+    if (expected === undefined) {
+      return value !== undefined && value !== '' && String(value).toLowerCase() !== 'false'
+    }
+    return value !== undefined && String(value) === String(expected)
+  })
+
+/**
+ * Activates the component only when no other provider is registered for the token,
+ * which makes it a default that any other binding replaces.
+ *
+ * @example
+ * @Service({ bindTo: [CACHE_STORE_TOKEN] })
+ * @ConditionalOnMissingBean(CACHE_STORE_TOKEN)
+ * class InMemoryCacheStore {}
+ */
+export const ConditionalOnMissingBean = (token: DiToken): ClassDecorator =>
+  Conditional((diContainer: Container) => !diContainer.isRegistered(token))
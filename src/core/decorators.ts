@@ -3,7 +3,19 @@ import 'reflect-metadata'
 import { ZodSchema } from 'zod'
 import { FRAMEWORK_METADATA_KEYS } from '../constants'
 import { registeredComponents } from './component-registry'
-import { ComponentOptions, container, Scope } from './di-container'
+import {
+  BindingScope,
+  ComponentOptions,
+  Constructor,
+  Container,
+  container,
+  eagerIdentifiers,
+  InjectionOptions,
+  ProviderCondition,
+  Scope,
+} from './di-container'
+import { appendMetadata } from './execution-context'
+import { Pipe } from './pipes'
 
 // --- Metadata Keys ---
 export const METADATA_KEYS = {
@@ -12,8 +24,23 @@ export const METADATA_KEYS = {
   validationSchema: FRAMEWORK_METADATA_KEYS.VALIDATION_SCHEMA,
   paramTypes: FRAMEWORK_METADATA_KEYS.PARAM_TYPES,
   middleware: FRAMEWORK_METADATA_KEYS.MIDDLEWARE,
+  middlewareOptions: FRAMEWORK_METADATA_KEYS.MIDDLEWARE_OPTIONS,
+  version: FRAMEWORK_METADATA_KEYS.VERSION,
+  sse: FRAMEWORK_METADATA_KEYS.SSE,
   autowiredProperties: FRAMEWORK_METADATA_KEYS.AUTOWIRED_PROPERTIES,
   autowiredParams: FRAMEWORK_METADATA_KEYS.AUTOWIRED_PARAMS,
+  autowiredParamOptions: FRAMEWORK_METADATA_KEYS.AUTOWIRED_PARAM_OPTIONS,
+  autowiredPropertyOptions: FRAMEWORK_METADATA_KEYS.AUTOWIRED_PROPERTY_OPTIONS,
+  componentOptions: FRAMEWORK_METADATA_KEYS.COMPONENT_OPTIONS,
+  module: FRAMEWORK_METADATA_KEYS.MODULE,
+  conditions: FRAMEWORK_METADATA_KEYS.CONDITIONS,
+  httpCode: FRAMEWORK_METADATA_KEYS.HTTP_CODE,
+  responseHeaders: FRAMEWORK_METADATA_KEYS.RESPONSE_HEADERS,
+  redirect: FRAMEWORK_METADATA_KEYS.REDIRECT,
+  guards: FRAMEWORK_METADATA_KEYS.GUARDS,
+  interceptors: FRAMEWORK_METADATA_KEYS.INTERCEPTORS,
+  catch: FRAMEWORK_METADATA_KEYS.CATCH,
+  filters: FRAMEWORK_METADATA_KEYS.FILTERS,
   swaggerMetadata: 'swagger:metadata',
 }
 
@@ -33,9 +60,26 @@ export type FastifyMiddleware = (
 export const Component = (options: ComponentOptions = {}): ClassDecorator => {
   return (target: any) => {
     const scope = options.scope || Scope.SINGLETON
+    Reflect.defineMetadata(METADATA_KEYS.componentOptions, options, target)
+
+    // Conditions (@Profile, @ConditionalOnConfig...) are evaluated on lookup, not here
+    const conditions: ProviderCondition[] =
+      Reflect.getMetadata(METADATA_KEYS.conditions, target) || []
+    const condition =
+      conditions.length > 0
+        ? (diContainer: Container) => conditions.every((check) => check(diContainer))
+        : undefined
 
     // 1. Register the class by its own type (as before)
-    container.register(target, { useClass: target, scope: scope as any })
+    container.register(target, {
+      useClass: target,
+      scope: scope as any,
+      eager: options.eager,
+      condition,
+    })
+    if (options.eager) {
+      eagerIdentifiers.add(target)
+    }
 
     // 2. Add to the global component registry (as before)
     registeredComponents.add(target)
@@ -48,8 +92,13 @@ export const Component = (options: ComponentOptions = {}): ClassDecorator => {
           .join(', ')}]`
       )
       for (const token of options.bindTo) {
-        // Map the abstract token to this concrete class
-        container.register(token, { useClass: target, scope: scope as any })
+        // Alias the abstract token to the class token so both share one instance
+        container.register(token, {
+          useExisting: target,
+          multi: options.multi,
+          name: options.name,
+          condition,
+        })
       }
     }
   }
@@ -59,25 +108,58 @@ export const Service = (options: ComponentOptions = {}): ClassDecorator => Compo
 // Repository can also be updated
 export const Repository = (options: ComponentOptions = {}): ClassDecorator => Component(options)
 
+export interface ControllerOptions {
+  /**
+   * Lifetime of the controller instance. Use 'request' to get a fresh controller
+   * (and fresh request-scoped dependencies) for every HTTP request.
+   */
+  scope?: BindingScope
+}
+
 export const Controller =
-  (prefix: string = ''): ClassDecorator =>
+  (prefix: string = '', options: ControllerOptions = {}): ClassDecorator =>
     (target: any) => {
       Reflect.defineMetadata(METADATA_KEYS.controllerPrefix, prefix, target)
-      container.register(target, { useClass: target, scope: Scope.SINGLETON as any })
+      Reflect.defineMetadata(METADATA_KEYS.componentOptions, options, target)
+      container.register(target, { useClass: target, scope: options.scope || (Scope.SINGLETON as BindingScope) })
     }
 
 // --- Method Decorators ---
-type HttpMethod = 'GET' | 'POST' | 'PUT' | 'DELETE' | 'PATCH' | 'HEAD' | 'OPTIONS'
+export type HttpMethod = 'GET' | 'POST' | 'PUT' | 'DELETE' | 'PATCH' | 'HEAD' | 'OPTIONS'
+
+/**
+ * Route-level options, passed through to Fastify's RouteOptions.
+ */
+export interface RouteDecoratorOptions {
+  /** Maximum request body size in bytes, overriding the server's bodyLimit. */
+  bodyLimit?: number
+  /** Fail the request with a 503 when the handler takes longer than this many milliseconds. */
+  timeout?: number
+  /** Route constraints, e.g. `{ version: '2.0.0' }` or `{ host: 'admin.example.com' }`. */
+  constraints?: { version?: string; host?: string | RegExp; [name: string]: unknown }
+  /** Custom route config, available as `request.routeOptions.config`. */
+  config?: Record<string, unknown>
+  /** Whether a GET route also answers HEAD requests. Defaults to Fastify's setting. */
+  exposeHeadRoute?: boolean
+}
+
+export interface RouteMetadata {
+  method: HttpMethod | 'ALL'
+  path: string
+  handlerName: string | symbol
+  options: RouteDecoratorOptions
+}
 
 const createRouteDecorator =
-  (method: HttpMethod) =>
-    (path: string = '/'): MethodDecorator => {
+  (method: RouteMetadata['method']) =>
+    (path: string = '/', options: RouteDecoratorOptions = {}): MethodDecorator => {
       return (target: any, propertyKey: string | symbol) => {
-        const routes = Reflect.getMetadata(METADATA_KEYS.routes, target.constructor) || []
+        const routes: RouteMetadata[] = Reflect.getMetadata(METADATA_KEYS.routes, target.constructor) || []
         routes.push({
           method,
           path,
           handlerName: propertyKey,
+          options,
         })
         Reflect.defineMetadata(METADATA_KEYS.routes, routes, target.constructor)
       }
@@ -88,21 +170,111 @@ export const Post = createRouteDecorator('POST')
 export const Put = createRouteDecorator('PUT')
 export const Delete = createRouteDecorator('DELETE')
 export const Patch = createRouteDecorator('PATCH')
+export const Head = createRouteDecorator('HEAD')
+export const Options = createRouteDecorator('OPTIONS')
+/** Matches every HTTP method. */
+export const All = createRouteDecorator('ALL')
 
 // --- Parameter Decorators ---
-const createParamDecorator =
-  (type: string, name?: string) =>
-    (target: any, propertyKey: string | symbol, parameterIndex: number) => {
-      const params = Reflect.getMetadata(METADATA_KEYS.paramTypes, target, propertyKey) || []
-      params[parameterIndex] = { type, name }
-      Reflect.defineMetadata(METADATA_KEYS.paramTypes, params, target, propertyKey)
+
+export interface ParamContext<TData = any> {
+  /** The argument passed to the decorator, e.g. 'x-tenant' in @Header('x-tenant') */
+  data: TData
+  controller: Constructor
+  handlerName: string | symbol
+  index: number
+}
+
+export type ParamFactory<TData = any> = (
+  request: FastifyRequest,
+  reply: FastifyReply,
+  ctx: ParamContext<TData>
+) => any
+
+/**
+ * Route parameter metadata, read by `registerControllers` to build handler arguments.
+ */
+export interface ParamMetadata {
+  type: string
+  name?: any
+  factory: ParamFactory
+  pipes: Pipe[]
+}
+
+/**
+ * Creates a parameter decorator whose value is computed from the request. The
+ * decorator takes an optional argument (available as `ctx.data`) followed by pipes.
+ *
+ * @example
+ * export const Tenant = createParamDecorator((req) => req.headers['x-tenant'])
+ *
+ * @Get('/')
+ * list(@Tenant() tenant: string) {}
+ */
+export function createParamDecorator<TData = any>(
+  factory: ParamFactory<TData>,
+  type: string = 'custom'
+) {
+  return (data?: TData, ...pipes: Pipe[]): ParameterDecorator =>
+    (target: any, propertyKey: string | symbol | undefined, parameterIndex: number) => {
+      const params = Reflect.getMetadata(METADATA_KEYS.paramTypes, target, propertyKey!) || []
+      params[parameterIndex] = { type, name: data, factory, pipes } as ParamMetadata
+      Reflect.defineMetadata(METADATA_KEYS.paramTypes, params, target, propertyKey!)
     }
+}
 
-export const Body = () => createParamDecorator('body')
-export const Query = (name?: string) => createParamDecorator('query', name)
-export const Param = (name: string) => createParamDecorator('param', name)
-export const Req = () => createParamDecorator('request')
-export const Res = () => createParamDecorator('reply')
+const pick = (source: any, key?: string) => (key ? source?.[key] : source)
+
+const BodyParam = createParamDecorator<string>((req, _reply, ctx) => pick(req.body, ctx.data), 'body')
+const QueryParam = createParamDecorator<string>(
+  (req, _reply, ctx) => pick(req.query, ctx.data),
+  'query'
+)
+const RouteParam = createParamDecorator<string>(
+  (req, _reply, ctx) => (req.params as any)[ctx.data],
+  'param'
+)
+const HeaderParam = createParamDecorator<string>(
+  (req, _reply, ctx) => req.headers[ctx.data.toLowerCase()],
+  'header'
+)
+
+export const Body = (property?: string, ...pipes: Pipe[]) => BodyParam(property, ...pipes)
+export const Query = (name?: string, ...pipes: Pipe[]) => QueryParam(name, ...pipes)
+export const Param = (name: string, ...pipes: Pipe[]) => RouteParam(name, ...pipes)
+export const Req = createParamDecorator((req) => req, 'request')
+export const Res = createParamDecorator((_req, reply) => reply, 'reply')
+/**
+ * With a name only (and optional pipes), injects a request header: `@Header('x-tenant')`.
+ * With a name and a value, sets a response header on the route: `@Header('Cache-Control', 'no-store')`.
+ */
+export function Header(name: string, value: string): MethodDecorator
+export function Header(name: string, ...pipes: Pipe[]): ParameterDecorator
+export function Header(name: string, ...args: any[]): any {
+  return (target: any, propertyKey: string | symbol, indexOrDescriptor: any) => {
+    if (typeof indexOrDescriptor === 'number') {
+      return HeaderParam(name, ...args)(target, propertyKey, indexOrDescriptor)
+    }
+    const headers = Reflect.getMetadata(METADATA_KEYS.responseHeaders, target, propertyKey) || {}
+    Reflect.defineMetadata(
+      METADATA_KEYS.responseHeaders,
+      { ...headers, [name]: args[0] },
+      target,
+      propertyKey
+    )
+  }
+}
+/** Requires a cookie parser such as @fastify/cookie. */
+export const Cookie = createParamDecorator<string>(
+  (req, _reply, ctx) => pick((req as any).cookies, ctx.data),
+  'cookie'
+)
+export const Ip = createParamDecorator((req) => req.ip, 'ip')
+/** The user set on the request by the auth middleware, or one of its properties. */
+export const CurrentUser = createParamDecorator<string>(
+  (req, _reply, ctx) => pick(req.user, ctx.data) ?? undefined,
+  'user'
+)
 
 export interface ValidationDecoratorOptions {
   body?: ZodSchema<any>
@@ -126,6 +298,36 @@ const Validate = (schema: ValidationDecoratorOptions): MethodDecorator => {
 
 export const Schema = Validate
 
+// --- Response Decorators ---
+
+/**
+ * Sets the status code of successful responses, e.g. `@HttpCode(201)`.
+ */
+export const HttpCode = (statusCode: number): MethodDecorator => {
+  return (target: any, propertyKey: string | symbol) => {
+    Reflect.defineMetadata(METADATA_KEYS.httpCode, statusCode, target, propertyKey)
+  }
+}
+
+export interface RedirectOptions {
+  url: string
+  statusCode: number
+}
+
+/**
+ * Redirects to the url. The handler can return `{ url, statusCode }` to override it.
+ */
+export const Redirect = (url: string, statusCode: number = 302): MethodDecorator => {
+  return (target: any, propertyKey: string | symbol) => {
+    Reflect.defineMetadata(
+      METADATA_KEYS.redirect,
+      { url, statusCode } as RedirectOptions,
+      target,
+      propertyKey
+    )
+  }
+}
+
 // --- Swagger Documentation Decorators ---
 
 export interface SwaggerOptions {
@@ -135,6 +337,11 @@ export interface SwaggerOptions {
   deprecated?: boolean
   operationId?: string
   security?: Array<Record<string, string[]>>
+  /** Examples shown in the OpenAPI document: a request body and response bodies by status code. */
+  examples?: {
+    body?: unknown
+    responses?: { [statusCode: number]: unknown }
+  }
 }
 
 /**
@@ -179,21 +386,73 @@ export const Swagger = (options: SwaggerOptions): ClassDecorator & MethodDecorat
   }
 }
 
-export const UseMiddleware = (
-  ...middlewares: FastifyMiddleware[]
-): MethodDecorator & ClassDecorator => {
-  return (target: any, propertyKey?: string | symbol) => {
-    const key = METADATA_KEYS.middleware
-    if (propertyKey) {
-      // Method Decorator
-      Reflect.defineMetadata(key, middlewares, target, propertyKey)
-    } else {
-      // Class Decorator
-      Reflect.defineMetadata(key, middlewares, target)
-    }
+/**
+ * Class-based middleware. Classes decorated with `@Middleware()` are resolved from
+ * the container, so they can inject services.
+ */
+export interface HttpMiddleware {
+  use(request: FastifyRequest, reply: FastifyReply): Promise<void> | void
+}
+
+export type MiddlewareLike = FastifyMiddleware | HttpMiddleware | Constructor<HttpMiddleware>
+
+export interface MiddlewareOptions {
+  /**
+   * Lower values run first, defaults to 0. Middleware with the same order run
+   * controller ones first, then method ones, each in declaration order.
+   */
+  order?: number
+}
+
+export interface MiddlewareMetadata {
+  middleware: MiddlewareLike
+  order?: number
+}
+
+/**
+ * Declares an injectable middleware class. `order` is used wherever the class is
+ * applied without an explicit order.
+ *
+ * @example
+ * @Middleware({ order: -10 })
+ * class TenantMiddleware implements HttpMiddleware {
+ *   constructor(private readonly tenants: TenantService) {}
+ *   async use(request: FastifyRequest) {
+ *     request.tenant = await this.tenants.fromHost(request.hostname)
+ *   }
+ * }
+ */
+export const Middleware = (options: MiddlewareOptions & ComponentOptions = {}): ClassDecorator => {
+  return (target: any) => {
+    const { order, ...componentOptions } = options
+    Reflect.defineMetadata(METADATA_KEYS.middlewareOptions, { order }, target)
+    Component(componentOptions)(target)
   }
 }
 
+const isMiddlewareOptions = (value: any): value is MiddlewareOptions =>
+  typeof value === 'object' && value !== null && typeof value.use !== 'function'
+
+/**
+ * Runs middleware before the handler of a controller's routes or a single route.
+ * Stacked decorators accumulate, and an options object as the first argument sets
+ * the order of the middleware that follow it.
+ *
+ * @example
+ * @UseMiddleware(authenticate)
+ * @UseMiddleware({ order: -1 }, rateLimit, TenantMiddleware)
+ */
+export function UseMiddleware(...middlewares: MiddlewareLike[]): MethodDecorator & ClassDecorator
+export function UseMiddleware(
+  options: MiddlewareOptions,
+  ...middlewares: MiddlewareLike[]
+): MethodDecorator & ClassDecorator
+export function UseMiddleware(...args: any[]): MethodDecorator & ClassDecorator {
+  const { order }: MiddlewareOptions = isMiddlewareOptions(args[0]) ? args.shift() : {}
+  const entries: MiddlewareMetadata[] = args.map((middleware) => ({ middleware, order }))
+  return appendMetadata(METADATA_KEYS.middleware, entries)
+}
+
 // export const Autowired = (): PropertyDecorator => {
 //   return (target: any, propertyKey: string | symbol) => {
 //     // Get the type of the property being decorated (e.g., TodoService class)
@@ -250,7 +509,11 @@ export const UseMiddleware = (
 //   }
 // }
 
-export const Autowired = (token?: any): any => {
+/**
+ * Injects a dependency into a constructor parameter or a property.
+ * Pass `{ multi: true }` to inject every provider bound to the token as an array.
+ */
+export const Autowired = (token?: any, options: InjectionOptions = {}): any => {
   return (target: any, propertyKey: string | symbol | undefined, parameterIndex?: number) => {
     // Constructor Parameter Injection
     if (typeof parameterIndex === 'number') {
@@ -262,6 +525,7 @@ export const Autowired = (token?: any): any => {
       const constructorParams = Reflect.getMetadata(METADATA_KEYS.autowiredParams, target) || []
       constructorParams[parameterIndex] = token
       Reflect.defineMetadata(METADATA_KEYS.autowiredParams, constructorParams, target)
+      defineInjectionOptions(target, propertyKey, parameterIndex, options)
       return
     }
 
@@ -273,7 +537,9 @@ export const Autowired = (token?: any): any => {
       Reflect.getMetadata(METADATA_KEYS.autowiredProperties, target.constructor) || []
 
     const tokenToInject = token || propertyType
-    if (!tokenToInject) {
+    const propertyOptions =
+      Reflect.getMetadata(METADATA_KEYS.autowiredPropertyOptions, target.constructor) || {}
+    if (!tokenToInject && !propertyOptions[propertyKey!]?.forwardRef) {
       throw new Error(
         `[DI] Could not resolve type for property '${String(propertyKey)}' on class '${target.constructor.name
         }'.`
@@ -281,9 +547,76 @@ export const Autowired = (token?: any): any => {
     }
 
     properties.push({
+      ...options,
       propertyKey,
       token: tokenToInject,
     })
     Reflect.defineMetadata(METADATA_KEYS.autowiredProperties, properties, target.constructor)
   }
 }
+
+/**
+ * Merges injection options for a constructor parameter or a property, so that
+ * @Autowired, @Optional, @Lazy and @Qualifier can be stacked in any order.
+ */
+const defineInjectionOptions = (
+  target: any,
+  propertyKey: string | symbol | undefined,
+  parameterIndex: number | undefined,
+  options: InjectionOptions
+) => {
+  if (typeof parameterIndex === 'number') {
+    const paramOptions = Reflect.getMetadata(METADATA_KEYS.autowiredParamOptions, target) || []
+    paramOptions[parameterIndex] = { ...paramOptions[parameterIndex], ...options }
+    Reflect.defineMetadata(METADATA_KEYS.autowiredParamOptions, paramOptions, target)
+    return
+  }
+
+  const propertyOptions =
+    Reflect.getMetadata(METADATA_KEYS.autowiredPropertyOptions, target.constructor) || {}
+  propertyOptions[propertyKey!] = { ...propertyOptions[propertyKey!], ...options }
+  Reflect.defineMetadata(METADATA_KEYS.autowiredPropertyOptions, propertyOptions, target.constructor)
+}
+
+/**
+ * Injects `undefined` (or an empty array for multi injections) instead of
+ * throwing when nothing is registered for the dependency.
+ */
+export const Optional = (): any => {
+  return (target: any, propertyKey: string | symbol | undefined, parameterIndex?: number) => {
+    defineInjectionOptions(target, propertyKey, parameterIndex, { optional: true })
+  }
+}
+
+/**
+ * Injects a proxy that resolves the dependency on first use, which breaks
+ * constructor cycles between two services.
+ * @param forwardRef Returns the token, for classes not yet defined when the decorator runs.
+ *
+ * @example
+ * @Service()
+ * class OrderService {
+ *   constructor(@Lazy(() => InvoiceService) private invoices: InvoiceService) {}
+ * }
+ */
+export const Lazy = (forwardRef?: () => any): any => {
+  return (target: any, propertyKey: string | symbol | undefined, parameterIndex?: number) => {
+    defineInjectionOptions(target, propertyKey, parameterIndex, { lazy: true, forwardRef })
+  }
+}
+
+/**
+ * Picks the provider registered under the given name when several
+ * named bindings exist for the same token.
+ *
+ * @example
+ * @Service({ bindTo: [CACHE_STORE_TOKEN], name: 'redis' })
+ * class RedisCacheStore implements ICacheStore {}
+ *
+ * constructor(@Autowired(CACHE_STORE_TOKEN) @Qualifier('redis') private cache: ICacheStore) {}
+ */
+export const Qualifier = (name: string): any => {
+  return (target: any, propertyKey: string | symbol | undefined, parameterIndex?: number) => {
+    defineInjectionOptions(target, propertyKey, parameterIndex, { qualifier: name })
+  }
+}
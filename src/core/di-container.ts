@@ -7,6 +7,7 @@
 export enum Scope {
   SINGLETON = 'singleton',
   TRANSIENT = 'transient',
+  REQUEST = 'request',
 }
 
 // // The definition now clearly separates the token from the class to instantiate
@@ -155,76 +156,512 @@ export enum Scope {
 
 import 'reflect-metadata'
 import { METADATA_KEYS } from './decorators'
+import { requestContextStore } from './request-context.store'
 
 // --- Type Definitions ---
 export type Constructor<T = any> = new (...args: any[]) => T
 export type DiToken = any
-export type BindingScope = 'singleton' | 'transient'
+export type BindingScope = 'singleton' | 'transient' | 'request'
+
+/**
+ * Request-scoped instances may implement this interface to release
+ * resources once the HTTP request that created them has finished.
+ */
+export interface IDisposable {
+  dispose(): void | Promise<void>
+}
+
+/**
+ * Called once the container has been initialized and routes are registered,
+ * before the server starts listening. Use it for async setup such as opening
+ * connections or warming caches.
+ */
+export interface OnInit {
+  onInit(): void | Promise<void>
+}
+
+/**
+ * Called after the server is listening.
+ */
+export interface OnReady {
+  onReady(): void | Promise<void>
+}
+
+/**
+ * Called during graceful shutdown, in reverse dependency order.
+ */
+export interface OnShutdown {
+  onShutdown(signal?: string): void | Promise<void>
+}
+
+export type LifecycleHook = 'onInit' | 'onReady' | 'onShutdown'
+
+export interface LifecycleHookOptions {
+  /** Call the hooks in reverse creation order (dependents before their dependencies). */
+  reverse?: boolean
+  /** Arguments passed to every hook. */
+  args?: any[]
+  /** Keep calling the remaining hooks when one throws and return the errors instead. */
+  continueOnError?: boolean
+}
 
 export interface ComponentOptions {
   bindTo?: DiToken[]
   scope?: BindingScope
   eager?: boolean
+  /** Add to the `bindTo` tokens' providers instead of replacing them (see `resolveAll`). */
+  multi?: boolean
+  /** Qualifier name for the `bindTo` bindings, selectable with `@Qualifier(name)`. */
+  name?: string
+}
+
+/**
+ * Options for a single injection point (constructor parameter or property).
+ */
+export interface InjectionOptions {
+  /** Inject every provider bound to the token as an array. */
+  multi?: boolean
+  /** Inject `undefined` (or `[]` with `multi`) when nothing is registered for the token. */
+  optional?: boolean
+  /** Inject a proxy that resolves the dependency on first use. */
+  lazy?: boolean
+  /** Only consider the provider registered under this name. */
+  qualifier?: string
+  /** Defers reading the token, for classes that are not yet defined when decorators run. */
+  forwardRef?: () => DiToken
+}
+
+interface InjectionPoint extends InjectionOptions {
+  token: DiToken
+}
+
+export interface DependencyGraphNode {
+  token: DiToken
+  name: string
+  scope: BindingScope
+  kind: 'class' | 'factory' | 'value' | 'alias'
+  qualifier?: string
+}
+
+export interface DependencyGraphEdge extends Omit<InjectionOptions, 'forwardRef'> {
+  from: DiToken
+  to: DiToken
+}
+
+export interface DependencyGraph {
+  nodes: DependencyGraphNode[]
+  edges: DependencyGraphEdge[]
+}
+
+export interface DependencyValidationResult {
+  valid: boolean
+  /** Required dependencies that nothing is registered for. */
+  missing: { token: DiToken; dependency: DiToken; qualifier?: string }[]
+  /** Singletons that would capture the instance of a request-scoped or transient dependency. */
+  scopeMismatches: {
+    token: DiToken
+    scope: BindingScope
+    dependency: DiToken
+    dependencyScope: BindingScope
+  }[]
+  /** Dependency cycles not broken by a lazy injection, as token paths. */
+  cycles: DiToken[][]
+}
+
+/**
+ * Thrown by `container.assertValid()`, listing every problem found at once.
+ */
+export class DependencyValidationError extends Error {
+  constructor(public readonly result: DependencyValidationResult) {
+    super(formatValidationResult(result))
+    this.name = 'DependencyValidationError'
+  }
 }
 
+export type FactoryProvider<T = any> = (...deps: any[]) => T | Promise<T>
+
+/**
+ * Decides whether a provider is active, given the container looking it up.
+ */
+export type ProviderCondition = (diContainer: Container) => boolean
+
 export interface RegistrationOptions {
   useClass?: Constructor
-  useFactory?: () => any // <-- ADDED: For factory providers
+  /**
+   * Factory providers may be async. Async factories must be singletons and are
+   * resolved by awaiting `container.init()` before anything injects them.
+   */
+  useFactory?: FactoryProvider
+  /** Tokens resolved and passed to `useFactory`, in order. */
+  inject?: DiToken[]
+  /** A ready-made value, such as a config object or a pre-built client. */
+  useValue?: any
+  /** Alias another token, sharing its instance instead of creating a new one. */
+  useExisting?: DiToken
+  /**
+   * Resolve the `useExisting` token in another container, which owns its instance.
+   * The alias may then have the token's own name. Used for providers imported from modules.
+   */
+  from?: Container
   scope?: BindingScope
+  /** Instantiate the provider during `container.init()` instead of on first use. */
+  eager?: boolean
+  /** Keep previously registered providers of the token instead of replacing them. */
+  multi?: boolean
+  /** Register a named binding. Named bindings of one token coexist and are picked with a qualifier. */
+  name?: string
+  /**
+   * Only use the provider while the condition holds. Conditions are evaluated on
+   * lookup, so they can depend on configuration loaded after registration.
+   * Conditional providers don't replace earlier ones; the last active one wins.
+   */
+  condition?: ProviderCondition
 }
 
 interface ServiceDefinition {
+  name?: string
   useClass?: Constructor
-  useFactory?: () => any // <-- ADDED: For factory providers
+  useFactory?: FactoryProvider
+  inject?: DiToken[]
+  useExisting?: DiToken
+  from?: Container
   scope: BindingScope
+  eager?: boolean
+  condition?: ProviderCondition
   instance?: any
+  /** The promise returned by a singleton factory, until it settles. */
+  pending?: Promise<any>
+  /** Set once a transient or request-scoped factory returned a promise. */
+  async?: boolean
 }
 
 // --- Eager Loading Registry ---
 export const eagerIdentifiers = new Set<DiToken>()
 
+/**
+ * Key under which request-scoped instances are cached inside the
+ * request context store opened by the context middleware.
+ */
+export const REQUEST_SCOPED_INSTANCES_KEY = 'bootify:request-scoped-instances'
+
 // --- The Container Class ---
 export class Container {
-  private readonly services = new Map<DiToken, ServiceDefinition>()
-  private readonly resolving = new Set<DiToken>()
+  private readonly services = new Map<DiToken, ServiceDefinition[]>()
+  private readonly resolving = new Set<ServiceDefinition>()
+  // Singleton instances in creation order, which is also dependency order
+  private readonly instantiated: any[] = []
+  private readonly calledHooks = new Map<LifecycleHook, Set<any>>()
+  private readonly evaluatingConditions = new Set<ProviderCondition>()
+
+  /**
+   * @param parent Container consulted for tokens that are not registered locally.
+   */
+  constructor(private readonly parent?: Container) {}
+
+  /**
+   * Creates a child container. Registrations in the child override the parent's
+   * for the child only; tokens the child doesn't know are resolved by the parent,
+   * which also owns (and caches) their instances.
+   */
+  public createChild(): Container {
+    return new Container(this)
+  }
 
+  public getParent(): Container | undefined {
+    return this.parent
+  }
+
+  /**
+   * Creates a child container holding a copy of every class, factory and alias
+   * provider visible from this one, without their instances. Unlike `createChild()`,
+   * every copied provider is re-created in the fork and resolves its dependencies
+   * there, so a provider overridden in the fork is seen by everything that injects it.
+   * Value providers are shared with this container.
+   */
+  public fork(): Container {
+    const forked = new Container(this)
+    this.getVisibleDefinitions(true).forEach(({ definitions }, token) => {
+      if (definitions.every((serviceDef) => getDefinitionKind(serviceDef) === 'value')) return
+      forked.services.set(
+        token,
+        definitions.map((serviceDef) => {
+          if (getDefinitionKind(serviceDef) === 'value') return serviceDef
+          const { instance, ...copy } = serviceDef
+          return copy
+        })
+      )
+    })
+    return forked
+  }
+
+  /**
+   * Registers a provider for a token. A regular registration replaces the previous
+   * provider registered under the same name, while `multi: true` appends to the
+   * token's providers so that all of them can be injected together.
+   */
   public register(token: DiToken, options: RegistrationOptions): void {
-    if (!options.useClass && !options.useFactory) {
+    const definition = this.createDefinition(token, options)
+    definition.name = options.name
+    definition.condition = options.condition
+    const existing = (this.services.get(token) || []).filter(
+      (serviceDef) => options.multi || options.condition || serviceDef.name !== options.name
+    )
+    this.services.set(token, [...existing, definition])
+  }
+
+  private createDefinition(token: DiToken, options: RegistrationOptions): ServiceDefinition {
+    const hasValue = 'useValue' in options
+    const hasExisting = options.useExisting !== undefined
+    if (!options.useClass && !options.useFactory && !hasValue && !hasExisting) {
       throw new Error(
-        `[DI] Registration for token '${String(token)}' requires 'useClass' or 'useFactory'.`
+        `[DI] Registration for token '${String(
+          token
+        )}' requires 'useClass', 'useFactory', 'useValue' or 'useExisting'.`
       )
     }
-    this.services.set(token, {
+    if (hasExisting && options.useExisting === token && !options.from) {
+      throw new Error(`[DI] Token '${String(token)}' cannot be an alias of itself.`)
+    }
+    if (hasValue) {
+      return { scope: 'singleton', instance: options.useValue }
+    }
+    if (hasExisting) {
+      // Aliases never cache anything themselves; the target's scope applies
+      return { useExisting: options.useExisting, from: options.from, scope: 'transient' }
+    }
+    const scope = options.scope || 'singleton'
+    return {
       useClass: options.useClass,
       useFactory: options.useFactory,
-      scope: options.scope || 'singleton',
-    })
+      inject: options.inject,
+      scope,
+      eager: options.eager,
+    }
   }
 
-  public resolve<T>(token: DiToken): T {
-    const serviceDef = this.services.get(token)
-    if (!serviceDef) {
-      throw new Error(`[DI] Service with token '${String(token)}' is not registered.`)
+  /**
+   * Creates every singleton factory provider and every eager provider up front,
+   * awaiting the factories that return a promise. Must be awaited before async
+   * providers are injected anywhere.
+   */
+  public async init(): Promise<void> {
+    const initialized = new Set<ServiceDefinition>()
+    for (const token of Array.from(this.services.keys())) {
+      for (const serviceDef of this.getDefinitions(token)) {
+        const isSingletonFactory = !!serviceDef.useFactory && serviceDef.scope === 'singleton'
+        if (isSingletonFactory || serviceDef.eager || eagerIdentifiers.has(token)) {
+          await this.initialize(serviceDef, initialized)
+        }
+      }
     }
+  }
 
-    if (this.resolving.has(token)) {
-      throw new Error(`[DI] Circular dependency detected for token '${String(token)}'.`)
+  /**
+   * Calls a lifecycle hook on every singleton this container has instantiated, in
+   * creation order so that dependencies run before their dependents (or the reverse
+   * with `reverse: true`). Each instance's hook runs at most once.
+   * @returns The errors thrown by hooks, when `continueOnError` is set.
+   */
+  public async callLifecycleHook(
+    hook: LifecycleHook,
+    options: LifecycleHookOptions = {}
+  ): Promise<Error[]> {
+    const called = this.calledHooks.get(hook) || new Set<any>()
+    this.calledHooks.set(hook, called)
+
+    const instances = options.reverse ? [...this.instantiated].reverse() : [...this.instantiated]
+    const errors: Error[] = []
+    for (const instance of instances) {
+      if (!instance || typeof instance[hook] !== 'function' || called.has(instance)) continue
+      called.add(instance)
+      try {
+        await instance[hook](...(options.args || []))
+      } catch (error) {
+        if (!options.continueOnError) throw error
+        errors.push(error instanceof Error ? error : new Error(String(error)))
+      }
     }
+    return errors
+  }
 
+  /**
+   * Resolves a token, awaiting any async providers in its dependency tree first.
+   */
+  public async resolveAsync<T>(token: DiToken): Promise<T> {
+    await this.initializeToken(token, new Set())
+    return this.resolve<T>(token)
+  }
 
+  private async initializeToken(token: DiToken, initialized: Set<ServiceDefinition>): Promise<void> {
+    const owner = this.findOwner(token)
+    if (owner && owner !== this) {
+      return owner.initializeToken(token, initialized)
+    }
+    for (const serviceDef of this.getDefinitions(token)) {
+      await this.initialize(serviceDef, initialized)
+    }
+  }
 
-    if (serviceDef.scope === 'singleton' && serviceDef.instance) {
+  /**
+   * Initializes the dependencies of a definition depth-first, then the definition itself.
+   * Cycles are left for `resolve` to report.
+   */
+  private async initialize(
+    serviceDef: ServiceDefinition,
+    initialized: Set<ServiceDefinition>
+  ): Promise<void> {
+    if (initialized.has(serviceDef)) return
+    initialized.add(serviceDef)
+
+    for (const dependency of this.getDependencies(serviceDef)) {
+      await this.initializeToken(dependency.token, initialized)
+    }
+
+    if (serviceDef.scope !== 'singleton' || 'instance' in serviceDef) return
+
+    if (serviceDef.useFactory) {
+      if (!serviceDef.pending) {
+        const deps = (serviceDef.inject || []).map((dep) => this.resolve(dep))
+        const instance = serviceDef.useFactory(...deps)
+        if (!isPromiseLike(instance)) {
+          serviceDef.instance = instance
+          this.instantiated.push(instance)
+          return
+        }
+        this.trackPendingInstance(serviceDef, instance)
+      }
+      await serviceDef.pending
+    } else if (serviceDef.useClass) {
+      this.resolveDefinition(serviceDef.useClass, serviceDef)
+    }
+  }
+
+  /**
+   * Keeps the promise returned by a singleton factory on its definition, so the
+   * factory is never called again while it's pending. A rejected factory is retried
+   * by the next `init()` or `resolveAsync()`.
+   */
+  private trackPendingInstance(serviceDef: ServiceDefinition, promise: PromiseLike<any>): void {
+    serviceDef.pending = Promise.resolve(promise).then(
+      (instance) => {
+        serviceDef.pending = undefined
+        serviceDef.instance = instance
+        this.instantiated.push(instance)
+        return instance
+      },
+      (error) => {
+        serviceDef.pending = undefined
+        throw error
+      }
+    )
+    // Failures surface through init() or resolveAsync(), not as unhandled rejections
+    serviceDef.pending.catch(() => undefined)
+  }
+
+  /**
+   * Resolves the most recently registered provider of a token.
+   * @param qualifier Only consider the provider registered under this name.
+   */
+  public resolve<T>(token: DiToken, qualifier?: string): T {
+    const owner = this.findOwner(token, qualifier)
+    if (owner && owner !== this) {
+      return owner.resolve<T>(token, qualifier)
+    }
+    const definitions = this.getDefinitions(token, qualifier)
+    if (definitions.length === 0) {
+      const named = qualifier !== undefined ? ` with qualifier '${qualifier}'` : ''
+      throw new Error(`[DI] Service with token '${String(token)}'${named} is not registered.`)
+    }
+    return this.resolveDefinition<T>(token, definitions[definitions.length - 1])
+  }
+
+  /**
+   * Resolves every provider registered for a token, in registration order.
+   * Returns an empty array when nothing is registered.
+   */
+  public resolveAll<T>(token: DiToken, qualifier?: string): T[] {
+    const owner = this.findOwner(token, qualifier)
+    if (owner && owner !== this) {
+      return owner.resolveAll<T>(token, qualifier)
+    }
+    return this.getDefinitions(token, qualifier).map((serviceDef) =>
+      this.resolveDefinition<T>(token, serviceDef)
+    )
+  }
+
+  /**
+   * Finds the closest container in the hierarchy that registers the token.
+   */
+  private findOwner(token: DiToken, qualifier?: string): Container | undefined {
+    if (this.getDefinitions(token, qualifier).length > 0) return this
+    return this.parent?.findOwner(token, qualifier)
+  }
+
+  private getDefinitions(token: DiToken, qualifier?: string): ServiceDefinition[] {
+    return (this.services.get(token) || []).filter(
+      (serviceDef) =>
+        (qualifier === undefined || serviceDef.name === qualifier) && this.isActive(serviceDef)
+    )
+  }
+
+  /**
+   * Evaluates the condition of a definition. While a condition is being evaluated
+   * the providers sharing it count as inactive, so that a provider checking for
+   * other providers of its own token doesn't find itself.
+   */
+  private isActive(serviceDef: ServiceDefinition): boolean {
+    const { condition } = serviceDef
+    if (!condition) return true
+    if (this.evaluatingConditions.has(condition)) return false
+
+    this.evaluatingConditions.add(condition)
+    try {
+      return condition(this)
+    } finally {
+      this.evaluatingConditions.delete(condition)
+    }
+  }
+
+  private resolveDefinition<T>(token: DiToken, serviceDef: ServiceDefinition): T {
+    if (this.resolving.has(serviceDef)) {
+      throw new Error(`[DI] Circular dependency detected for token '${String(token)}'.`)
+    }
+
+    if (serviceDef.scope === 'singleton' && 'instance' in serviceDef) {
       return serviceDef.instance
     }
 
-    this.resolving.add(token)
+    const requestInstances =
+      serviceDef.scope === 'request' ? this.getRequestScopedInstances(token) : undefined
+    if (requestInstances?.has(serviceDef)) {
+      return requestInstances.get(serviceDef)
+    }
+
+    this.resolving.add(serviceDef)
 
     try {
       let instance: T
 
-      // --- ENHANCED: Handle factory providers first ---
-      if (serviceDef.useFactory) {
-        instance = serviceDef.useFactory()
+      if (serviceDef.useExisting !== undefined) {
+        return (serviceDef.from || this).resolve<T>(serviceDef.useExisting)
+      } else if (serviceDef.useFactory) {
+        if (serviceDef.async) {
+          throw asyncScopeError(token)
+        }
+        if (serviceDef.pending) {
+          throw asyncProviderError(token)
+        }
+        const deps = (serviceDef.inject || []).map((dep) => this.resolve(dep))
+        instance = serviceDef.useFactory(...deps) as T
+        if (isPromiseLike(instance)) {
+          // Keep the result: calling the factory again would open a second connection
+          if (serviceDef.scope !== 'singleton') {
+            serviceDef.async = true
+            throw asyncScopeError(token)
+          }
+          this.trackPendingInstance(serviceDef, instance)
+          throw asyncProviderError(token)
+        }
       } else if (serviceDef.useClass) {
         // Fallback to class-based instantiation
         const ConcreteClass = serviceDef.useClass
@@ -238,46 +675,399 @@ export class Container {
 
       if (serviceDef.scope === 'singleton') {
         serviceDef.instance = instance
-
+        this.instantiated.push(instance)
+      } else if (requestInstances) {
+        requestInstances.set(serviceDef, instance)
       }
 
       return instance
     } finally {
-      this.resolving.delete(token)
+      this.resolving.delete(serviceDef)
     }
   }
 
-  private resolveConstructorArgs(ConcreteClass: Constructor): any[] {
+  /**
+   * Returns the per-request instance cache, creating it on first use.
+   * Request-scoped services can only be resolved while a request context is active.
+   */
+  private getRequestScopedInstances(token: DiToken): Map<ServiceDefinition, any> {
+    const store = requestContextStore.getStore()
+    if (!store) {
+      throw new Error(
+        `[DI] Request-scoped service '${String(
+          token?.name || token
+        )}' cannot be resolved outside of a request context.`
+      )
+    }
+
+    let instances = store.get(REQUEST_SCOPED_INSTANCES_KEY)
+    if (!instances) {
+      instances = new Map<ServiceDefinition, any>()
+      store.set(REQUEST_SCOPED_INSTANCES_KEY, instances)
+    }
+    return instances
+  }
+
+  /**
+   * Reads the constructor injection points of a class. Parameters that cannot be
+   * injected (primitives or missing metadata) are left undefined.
+   */
+  private getConstructorInjections(ConcreteClass: Constructor): (InjectionPoint | undefined)[] {
     const constructorParamTypes = Reflect.getMetadata('design:paramtypes', ConcreteClass) || []
     const autowiredParamTokens =
       Reflect.getMetadata(METADATA_KEYS.autowiredParams, ConcreteClass) || []
+    const autowiredParamOptions =
+      Reflect.getMetadata(METADATA_KEYS.autowiredParamOptions, ConcreteClass) || []
 
     return constructorParamTypes.map((paramType: any, index: number) => {
-      const tokenToResolve = autowiredParamTokens[index] || paramType
+      const options: InjectionOptions = autowiredParamOptions[index] || {}
+      const tokenToResolve = autowiredParamTokens[index] || options.forwardRef?.() || paramType
 
       if (!tokenToResolve || [String, Number, Boolean, Object].includes(tokenToResolve)) {
         return undefined
       }
+      return { ...options, token: tokenToResolve }
+    })
+  }
 
-      return this.resolve(tokenToResolve)
+  private getPropertyInjections(
+    ConcreteClass: Constructor
+  ): (InjectionPoint & { propertyKey: string | symbol })[] {
+    const properties = Reflect.getMetadata(METADATA_KEYS.autowiredProperties, ConcreteClass) || []
+    const propertyOptions: Record<string | symbol, InjectionOptions> =
+      Reflect.getMetadata(METADATA_KEYS.autowiredPropertyOptions, ConcreteClass) || {}
+
+    return properties.map((prop: InjectionPoint & { propertyKey: string | symbol }) => {
+      const options = { ...prop, ...propertyOptions[prop.propertyKey] }
+      return { ...options, token: options.forwardRef?.() || prop.token }
     })
   }
 
+  /**
+   * Lists the injection points a definition needs in order to be instantiated.
+   */
+  private getDependencies(serviceDef: ServiceDefinition): InjectionPoint[] {
+    // The container owning the instance checks its dependencies
+    if (serviceDef.from) {
+      return []
+    }
+    if (serviceDef.useExisting !== undefined) {
+      return [{ token: serviceDef.useExisting }]
+    }
+    if (serviceDef.useFactory) {
+      return (serviceDef.inject || []).map((token) => ({ token }))
+    }
+    if (serviceDef.useClass) {
+      return [
+        ...(this.getConstructorInjections(serviceDef.useClass).filter(Boolean) as InjectionPoint[]),
+        ...this.getPropertyInjections(serviceDef.useClass),
+      ]
+    }
+    return []
+  }
+
+  private resolveInjection(injection: InjectionPoint): any {
+    const { token, qualifier, multi } = injection
+    if (injection.lazy) {
+      return createLazyProxy(() => this.resolveInjection({ ...injection, lazy: false }), multi)
+    }
+    if (injection.optional && !this.isRegistered(token, qualifier)) {
+      return multi ? [] : undefined
+    }
+    return multi ? this.resolveAll(token, qualifier) : this.resolve(token, qualifier)
+  }
+
+  private resolveConstructorArgs(ConcreteClass: Constructor): any[] {
+    return this.getConstructorInjections(ConcreteClass).map((injection) =>
+      injection ? this.resolveInjection(injection) : undefined
+    )
+  }
+
   private performPropertyInjection(instance: any, ConcreteClass: Constructor): void {
-    const autowiredProperties =
-      Reflect.getMetadata(METADATA_KEYS.autowiredProperties, ConcreteClass) || []
-    for (const prop of autowiredProperties) {
-      ;(instance as any)[prop.propertyKey] = this.resolve(prop.token)
+    for (const prop of this.getPropertyInjections(ConcreteClass)) {
+      ;(instance as any)[prop.propertyKey] = this.resolveInjection(prop)
     }
   }
 
   public getRegisteredComponents(): Constructor[] {
-    const definitions = Array.from(this.services.values())
+    const definitions = Array.from(this.services.keys()).flatMap((token) =>
+      this.getDefinitions(token)
+    )
     const classDefs = definitions.filter((def) => def.useClass).map((def) => def.useClass!)
-    return Array.from(new Set(classDefs))
+    const inherited = this.parent?.getRegisteredComponents() || []
+    return Array.from(new Set([...inherited, ...classDefs]))
+  }
+
+  /**
+   * Builds the dependency graph of every provider visible from this container,
+   * from the `design:paramtypes`, `@Autowired` parameter and property metadata
+   * and factory `inject` lists. Local providers shadow the parent's.
+   */
+  public getDependencyGraph(): DependencyGraph {
+    const nodes: DependencyGraphNode[] = []
+    const edges: DependencyGraphEdge[] = []
+    this.getVisibleDefinitions().forEach(({ definitions, owner }, token) => {
+      for (const serviceDef of definitions) {
+        nodes.push(owner.describeDefinition(token, serviceDef))
+        edges.push(...owner.getDependencyEdges(token, serviceDef))
+      }
+    })
+    return { nodes, edges }
+  }
+
+  /**
+   * Checks the dependency graph without instantiating anything and reports every
+   * missing token, scope mismatch and cycle at once. Each provider is checked
+   * against the container that owns it.
+   * @param includeParent Also check providers inherited from parent containers.
+   */
+  public validate(includeParent = true): DependencyValidationResult {
+    const missing: DependencyValidationResult['missing'] = []
+    const scopeMismatches: DependencyValidationResult['scopeMismatches'] = []
+    const adjacency = new Map<DiToken, Set<DiToken>>()
+
+    this.getVisibleDefinitions().forEach(({ definitions, owner }, token) => {
+      if (!includeParent && owner !== this) return
+
+      for (const serviceDef of definitions) {
+        for (const edge of owner.getDependencyEdges(token, serviceDef)) {
+          if (!owner.isRegistered(edge.to, edge.qualifier)) {
+            if (!edge.optional && !edge.multi) {
+              missing.push({ token, dependency: edge.to, qualifier: edge.qualifier })
+            }
+            continue
+          }
+
+          const dependencyScope = owner.getScope(edge.to, edge.qualifier)!
+          if (serviceDef.scope === 'singleton' && dependencyScope !== 'singleton') {
+            scopeMismatches.push({ token, scope: 'singleton', dependency: edge.to, dependencyScope })
+          }
+
+          // Lazy injections are resolved after construction, so they don't form cycles
+          if (!edge.lazy) {
+            const dependencies = adjacency.get(token) || new Set<DiToken>()
+            dependencies.add(edge.to)
+            adjacency.set(token, dependencies)
+          }
+        }
+      }
+    })
+
+    const cycles = findCycles(adjacency)
+    return {
+      valid: missing.length === 0 && scopeMismatches.length === 0 && cycles.length === 0,
+      missing,
+      scopeMismatches,
+      cycles,
+    }
+  }
+
+  /**
+   * Runs `validate()` and throws a `DependencyValidationError` listing every problem.
+   */
+  public assertValid(): void {
+    const result = this.validate()
+    if (!result.valid) {
+      throw new DependencyValidationError(result)
+    }
+  }
+
+  private getVisibleDefinitions(
+    includeInactive = false
+  ): Map<DiToken, { definitions: ServiceDefinition[]; owner: Container }> {
+    const visible = new Map(this.parent?.getVisibleDefinitions(includeInactive) || [])
+    this.services.forEach((registered, token) => {
+      const definitions = includeInactive ? registered : this.getDefinitions(token)
+      if (definitions.length > 0) visible.set(token, { definitions, owner: this })
+    })
+    return visible
   }
-  public isRegistered(token: DiToken): boolean {
-    return this.services.has(token)
+
+  private describeDefinition(token: DiToken, serviceDef: ServiceDefinition): DependencyGraphNode {
+    return {
+      token,
+      name: describeToken(token),
+      // Aliases report the scope of the provider they point to
+      scope:
+        serviceDef.useExisting !== undefined ? this.getScope(token, serviceDef.name)! : serviceDef.scope,
+      kind: getDefinitionKind(serviceDef),
+      qualifier: serviceDef.name,
+    }
+  }
+
+  private getDependencyEdges(token: DiToken, serviceDef: ServiceDefinition): DependencyGraphEdge[] {
+    return this.getDependencies(serviceDef).map(({ token: to, forwardRef, ...options }) => ({
+      from: token,
+      to,
+      ...options,
+    }))
+  }
+
+  /**
+   * Lists the tokens that the provider of a token depends on.
+   */
+  public getDependencyTokens(token: DiToken): DiToken[] {
+    const owner = this.findOwner(token)
+    if (!owner) return []
+    const definitions = owner.getDefinitions(token)
+    return owner.getDependencies(definitions[definitions.length - 1]).map((dep) => dep.token)
+  }
+
+  /**
+   * Checks whether the token is registered in this container or one of its ancestors.
+   */
+  public isRegistered(token: DiToken, qualifier?: string): boolean {
+    return !!this.findOwner(token, qualifier)
+  }
+
+  /**
+   * Checks whether the token is registered in this container itself, ignoring ancestors.
+   */
+  public isRegisteredLocally(token: DiToken, qualifier?: string): boolean {
+    return this.getDefinitions(token, qualifier).length > 0
+  }
+
+  public getScope(token: DiToken, qualifier?: string): BindingScope | undefined {
+    const owner = this.findOwner(token, qualifier)
+    if (owner && owner !== this) {
+      return owner.getScope(token, qualifier)
+    }
+    const definitions = this.getDefinitions(token, qualifier)
+    const serviceDef = definitions[definitions.length - 1]
+    if (serviceDef?.useExisting !== undefined) {
+      return (serviceDef.from || this).getScope(serviceDef.useExisting)
+    }
+    return serviceDef?.scope
+  }
+}
+
+export function describeToken(token: DiToken): string {
+  return String(token?.name || token?.description || token)
+}
+
+function getDefinitionKind(serviceDef: ServiceDefinition): DependencyGraphNode['kind'] {
+  if (serviceDef.useExisting !== undefined) return 'alias'
+  if (serviceDef.useFactory) return 'factory'
+  if (serviceDef.useClass) return 'class'
+  return 'value'
+}
+
+/**
+ * Finds every cycle in a dependency adjacency map with a depth-first search.
+ * Each cycle is reported once, as the path that closes it.
+ */
+function findCycles(adjacency: Map<DiToken, Set<DiToken>>): DiToken[][] {
+  const cycles: DiToken[][] = []
+  const state = new Map<DiToken, 'visiting' | 'done'>()
+  const path: DiToken[] = []
+
+  const visit = (token: DiToken) => {
+    state.set(token, 'visiting')
+    path.push(token)
+    for (const dependency of Array.from(adjacency.get(token) || [])) {
+      const dependencyState = state.get(dependency)
+      if (dependencyState === 'visiting') {
+        cycles.push([...path.slice(path.indexOf(dependency)), dependency])
+      } else if (!dependencyState) {
+        visit(dependency)
+      }
+    }
+    path.pop()
+    state.set(token, 'done')
+  }
+
+  Array.from(adjacency.keys()).forEach((token) => {
+    if (!state.has(token)) visit(token)
+  })
+  return cycles
+}
+
+function formatValidationResult(result: DependencyValidationResult): string {
+  const lines = [
+    ...result.missing.map(
+      (issue) =>
+        `- Missing: '${describeToken(issue.token)}' depends on '${describeToken(issue.dependency)}'${
+          issue.qualifier !== undefined ? ` (qualifier '${issue.qualifier}')` : ''
+        }, which is not registered.`
+    ),
+    ...result.scopeMismatches.map(
+      (issue) =>
+        `- Scope mismatch: ${issue.scope} '${describeToken(issue.token)}' depends on ${
+          issue.dependencyScope
+        } '${describeToken(issue.dependency)}'.`
+    ),
+    ...result.cycles.map((cycle) => `- Cycle: ${cycle.map(describeToken).join(' -> ')}.`),
+  ]
+  return `[DI] Dependency validation failed:\n${lines.join('\n')}`
+}
+
+function isPromiseLike(value: any): value is PromiseLike<any> {
+  return !!value && typeof value.then === 'function'
+}
+
+/**
+ * Creates a proxy that resolves its target on first access and forwards every
+ * operation to it. Used by `@Lazy()` injections to break constructor cycles.
+ */
+function createLazyProxy(resolveTarget: () => any, isArray?: boolean): any {
+  let target: any
+  let resolved = false
+  const getTarget = () => {
+    if (!resolved) {
+      target = resolveTarget()
+      resolved = true
+    }
+    return target
+  }
+
+  return new Proxy(isArray ? [] : {}, {
+    get: (_, prop) => {
+      const instance = getTarget()
+      const value = Reflect.get(instance, prop)
+      return typeof value === 'function' ? value.bind(instance) : value
+    },
+    set: (_, prop, value) => Reflect.set(getTarget(), prop, value),
+    has: (_, prop) => Reflect.has(getTarget(), prop),
+    getPrototypeOf: () => Reflect.getPrototypeOf(getTarget()),
+  })
+}
+
+function asyncScopeError(token: DiToken): Error {
+  return new Error(
+    `[DI] Factory for token '${String(
+      token?.name || token
+    )}' returned a promise. Only 'singleton' factories can be asynchronous.`
+  )
+}
+
+function asyncProviderError(token: DiToken): Error {
+  return new Error(
+    `[DI] Provider for token '${String(
+      token?.name || token
+    )}' is asynchronous. Await 'container.init()' or 'container.resolveAsync()' before resolving it.`
+  )
+}
+
+/**
+ * Disposes every request-scoped instance cached in the given request context store.
+ * Instances are disposed in reverse creation order so dependents go before their dependencies.
+ * @param store The request context store of the finished request.
+ */
+export async function disposeRequestScope(store: Map<string, any>): Promise<void> {
+  const instances: Map<ServiceDefinition, any> | undefined = store.get(REQUEST_SCOPED_INSTANCES_KEY)
+  if (!instances) return
+  store.delete(REQUEST_SCOPED_INSTANCES_KEY)
+
+  for (const instance of Array.from(instances.values()).reverse()) {
+    if (!instance || typeof instance.dispose !== 'function') continue
+    try {
+      await instance.dispose()
+    } catch (error) {
+      console.error(
+        `[DI] Failed to dispose request-scoped instance of '${instance.constructor?.name}'.`,
+        error
+      )
+    }
   }
 }
 
@@ -0,0 +1,216 @@
+import { STATUS_CODES } from 'http'
+import { ZodError } from 'zod'
+
+export type ValidationLocation = 'body' | 'query' | 'params' | 'headers'
+
+export interface ValidationIssue {
+  location?: ValidationLocation
+  /** Dotted path of the invalid field, e.g. 'items.0.price'. Empty for the whole part. */
+  path: string
+  message: string
+  code: string
+}
+
+/**
+ * An RFC 7807 problem details object.
+ */
+export interface ProblemDetails {
+  type: string
+  title: string
+  status: number
+  detail?: string
+  instance?: string
+  [extension: string]: unknown
+}
+
+export interface HttpExceptionOptions {
+  /** URI identifying the problem type. Defaults to 'about:blank'. */
+  type?: string
+  /** Extra members added to the problem details, e.g. `{ retryAfter: 30 }`. */
+  extensions?: Record<string, unknown>
+  /** The underlying error, kept for logging. Never sent to the client. */
+  cause?: unknown
+}
+
+/**
+ * Base class of errors that map to an HTTP response. The message becomes the
+ * problem `detail`, and the title is the standard reason phrase of the status.
+ *
+ * @example
+ * throw new HttpException(418, 'No coffee here')
+ * throw new NotFoundException(`User '${id}' not found`)
+ */
+export class HttpException extends Error {
+  constructor(
+    public readonly statusCode: number,
+    message?: string,
+    public readonly options: HttpExceptionOptions = {}
+  ) {
+    super(message || STATUS_CODES[statusCode] || 'Error')
+    this.name = new.target.name
+  }
+
+  getStatus(): number {
+    return this.statusCode
+  }
+
+  toProblem(instance?: string): ProblemDetails {
+    return {
+      type: this.options.type || 'about:blank',
+      title: STATUS_CODES[this.statusCode] || 'Error',
+      status: this.statusCode,
+      detail: this.message,
+      instance,
+      ...this.options.extensions,
+    }
+  }
+}
+
+export class BadRequestException extends HttpException {
+  constructor(message?: string, options?: HttpExceptionOptions) {
+    super(400, message, options)
+  }
+}
+
+export class UnauthorizedException extends HttpException {
+  constructor(message?: string, options?: HttpExceptionOptions) {
+    super(401, message, options)
+  }
+}
+
+export class ForbiddenException extends HttpException {
+  constructor(message?: string, options?: HttpExceptionOptions) {
+    super(403, message, options)
+  }
+}
+
+export class NotFoundException extends HttpException {
+  constructor(message?: string, options?: HttpExceptionOptions) {
+    super(404, message, options)
+  }
+}
+
+export class MethodNotAllowedException extends HttpException {
+  constructor(message?: string, options?: HttpExceptionOptions) {
+    super(405, message, options)
+  }
+}
+
+export class NotAcceptableException extends HttpException {
+  constructor(message?: string, options?: HttpExceptionOptions) {
+    super(406, message, options)
+  }
+}
+
+export class RequestTimeoutException extends HttpException {
+  constructor(message?: string, options?: HttpExceptionOptions) {
+    super(408, message, options)
+  }
+}
+
+export class ConflictException extends HttpException {
+  constructor(message?: string, options?: HttpExceptionOptions) {
+    super(409, message, options)
+  }
+}
+
+export class GoneException extends HttpException {
+  constructor(message?: string, options?: HttpExceptionOptions) {
+    super(410, message, options)
+  }
+}
+
+export class PayloadTooLargeException extends HttpException {
+  constructor(message?: string, options?: HttpExceptionOptions) {
+    super(413, message, options)
+  }
+}
+
+export class UnsupportedMediaTypeException extends HttpException {
+  constructor(message?: string, options?: HttpExceptionOptions) {
+    super(415, message, options)
+  }
+}
+
+export class UnprocessableEntityException extends HttpException {
+  constructor(message?: string, options?: HttpExceptionOptions) {
+    super(422, message, options)
+  }
+}
+
+export class TooManyRequestsException extends HttpException {
+  constructor(message?: string, options?: HttpExceptionOptions) {
+    super(429, message, options)
+  }
+}
+
+export class InternalServerErrorException extends HttpException {
+  constructor(message?: string, options?: HttpExceptionOptions) {
+    super(500, message, options)
+  }
+}
+
+export class NotImplementedException extends HttpException {
+  constructor(message?: string, options?: HttpExceptionOptions) {
+    super(501, message, options)
+  }
+}
+
+export class BadGatewayException extends HttpException {
+  constructor(message?: string, options?: HttpExceptionOptions) {
+    super(502, message, options)
+  }
+}
+
+export class ServiceUnavailableException extends HttpException {
+  constructor(message?: string, options?: HttpExceptionOptions) {
+    super(503, message, options)
+  }
+}
+
+export class GatewayTimeoutException extends HttpException {
+  constructor(message?: string, options?: HttpExceptionOptions) {
+    super(504, message, options)
+  }
+}
+
+/**
+ * Thrown when a request body, query string or route params fail their `@Schema`
+ * (or a pipe). Its problem details list each invalid field under `errors`.
+ */
+export class RequestValidationError extends BadRequestException {
+  constructor(public readonly issues: ValidationIssue[]) {
+    super('Request validation failed', { extensions: { errors: issues } })
+  }
+
+  static fromZodError(error: ZodError, location?: ValidationLocation): RequestValidationError {
+    return new RequestValidationError(
+      error.issues.map((issue) => ({
+        location,
+        path: issue.path.join('.'),
+        message: issue.message,
+        code: issue.code,
+      }))
+    )
+  }
+}
+
+/**
+ * Thrown when a handler's return value doesn't match the response schema of its
+ * status code. This is a server error: the response is never sent unvalidated.
+ */
+export class ResponseValidationError extends InternalServerErrorException {
+  constructor(public readonly error: ZodError, public readonly responseStatus: number) {
+    // The issues stay on `error` for logging; they would leak response internals to clients
+    super(`Response validation failed for status ${responseStatus}`)
+  }
+}
+
+/**
+ * Thrown when a route handler runs longer than its `timeout` route option.
+ */
+export class HandlerTimeoutError extends ServiceUnavailableException {
+  constructor(public readonly timeout: number) {
+    super(`Request handler timed out after ${timeout}ms`)
+  }
+}
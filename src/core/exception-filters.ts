@@ -0,0 +1,113 @@
+import { FastifyReply, FastifyRequest } from 'fastify'
+import 'reflect-metadata'
+import { ZodError } from 'zod'
+import { METADATA_KEYS, Service } from './decorators'
+import { Constructor } from './di-container'
+import {
+  HttpException,
+  InternalServerErrorException,
+  RequestValidationError,
+} from './errors'
+import { appendMetadata, ArgumentsHost } from './execution-context'
+import { RequestContextService } from './request-context.service'
+
+/**
+ * Turns an exception into a response. The filter sends the reply itself,
+ * or returns a value to send.
+ */
+export interface ExceptionFilter<T = any> {
+  catch(exception: T, host: ArgumentsHost): any
+}
+
+/** An exception filter instance, or a class resolved as `instantiate` in router.ts does. */
+export type ExceptionFilterLike = ExceptionFilter | Constructor<ExceptionFilter>
+
+/**
+ * Declares the exception types a filter handles. Without types, it handles everything.
+ *
+ * @example
+ * @Catch(PaymentDeclinedError)
+ * class PaymentDeclinedFilter implements ExceptionFilter<PaymentDeclinedError> {
+ *   catch(error: PaymentDeclinedError, host: ArgumentsHost) {
+ *     host.getReply().status(402).send({ reason: error.reason })
+ *   }
+ * }
+ */
+export const Catch = (...exceptions: Constructor[]): ClassDecorator => {
+  return (target: any) => {
+    Reflect.defineMetadata(METADATA_KEYS.catch, exceptions, target)
+  }
+}
+
+/**
+ * Applies exception filters to a controller or a handler. Method filters are tried
+ * first, then controller filters, then global filters; the first whose `@Catch`
+ * matches handles the exception.
+ */
+export const UseFilters = (...filters: ExceptionFilterLike[]) =>
+  appendMetadata(METADATA_KEYS.filters, filters)
+
+export function findExceptionFilter(
+  filters: ExceptionFilter[],
+  exception: unknown
+): ExceptionFilter | undefined {
+  return filters.find((filter) => {
+    const types: Constructor[] = Reflect.getMetadata(METADATA_KEYS.catch, filter.constructor) || []
+    return types.length === 0 || types.some((type) => exception instanceof type)
+  })
+}
+
+/**
+ * Maps any thrown value to an HttpException. Errors carrying a 4xx/5xx `statusCode`
+ * (Fastify errors, AuthError...) keep it along with their `code`; messages of other
+ * server errors are hidden.
+ */
+export function toHttpException(exception: unknown): HttpException {
+  if (exception instanceof HttpException) return exception
+  if (exception instanceof ZodError) return RequestValidationError.fromZodError(exception)
+
+  const statusCode = (exception as any)?.statusCode
+  if (Number.isInteger(statusCode) && statusCode >= 400 && statusCode < 600) {
+    const { message, code } = exception as Error & { code?: unknown }
+    return new HttpException(statusCode, statusCode < 500 ? message : undefined, {
+      cause: exception,
+      extensions: typeof code === 'string' ? { code } : undefined,
+    })
+  }
+  return new InternalServerErrorException(undefined, { cause: exception })
+}
+
+/**
+ * Renders exceptions as RFC 7807 `application/problem+json` responses that include
+ * the request id.
+ */
+@Service()
+@Catch()
+export class DefaultExceptionFilter implements ExceptionFilter {
+  constructor(private readonly requestContext: RequestContextService) {}
+
+  catch(exception: unknown, host: ArgumentsHost) {
+    const request = host.getRequest()
+    const httpException = toHttpException(exception)
+    const problem = httpException.toProblem(request.url)
+    problem.requestId = this.requestContext.get('requestId') ?? request.id
+
+    return host
+      .getReply()
+      .status(httpException.statusCode)
+      .type('application/problem+json')
+      .send(problem)
+  }
+}
+
+/**
+ * Builds a Fastify error handler that passes errors to the first matching filter.
+ * Errors no filter matches are rethrown to Fastify's default handler.
+ */
+export function createExceptionHandler(filters: ExceptionFilter[]) {
+  return (error: Error, request: FastifyRequest, reply: FastifyReply) => {
+    const filter = findExceptionFilter(filters, error)
+    if (!filter) throw error
+    return filter.catch(error, new ArgumentsHost(request, reply))
+  }
+}
@@ -0,0 +1,94 @@
+import { FastifyReply, FastifyRequest } from 'fastify'
+import 'reflect-metadata'
+import { Constructor } from './di-container'
+
+/**
+ * The request and reply being handled. Exception filters receive an ArgumentsHost,
+ * since errors can happen outside any controller (e.g. in middleware).
+ */
+export class ArgumentsHost {
+  constructor(
+    protected readonly request: FastifyRequest,
+    protected readonly reply: FastifyReply
+  ) {}
+
+  getRequest<T = FastifyRequest>(): T {
+    return this.request as T
+  }
+
+  getReply<T = FastifyReply>(): T {
+    return this.reply as T
+  }
+}
+
+/**
+ * The handler invocation that guards and interceptors run around: the request,
+ * the reply, and the controller class and method that will handle it.
+ */
+export class ExecutionContext extends ArgumentsHost {
+  constructor(
+    request: FastifyRequest,
+    reply: FastifyReply,
+    private readonly controllerClass: Constructor,
+    private readonly handlerName: string | symbol
+  ) {
+    super(request, reply)
+  }
+
+  getClass<T = any>(): Constructor<T> {
+    return this.controllerClass
+  }
+
+  getHandler(): Function {
+    return this.controllerClass.prototype[this.handlerName]
+  }
+
+  getHandlerName(): string | symbol {
+    return this.handlerName
+  }
+
+  /**
+   * Reads metadata (e.g. set with `SetMetadata`) from the handler, falling back
+   * to the controller class.
+   */
+  getMetadata<T = any>(key: any): T | undefined {
+    const methodValue = Reflect.getMetadata(key, this.controllerClass.prototype, this.handlerName)
+    return methodValue !== undefined ? methodValue : Reflect.getMetadata(key, this.controllerClass)
+  }
+}
+
+/**
+ * Attaches custom metadata to a controller or handler, for guards and interceptors
+ * to read with `context.getMetadata(key)`.
+ *
+ * @example
+ * export const Roles = (...roles: string[]) => SetMetadata('roles', roles)
+ */
+export const SetMetadata = <V = any>(key: any, value: V): ClassDecorator & MethodDecorator => {
+  return ((target: any, propertyKey?: string | symbol) => {
+    if (propertyKey !== undefined) {
+      Reflect.defineMetadata(key, value, target, propertyKey)
+    } else {
+      Reflect.defineMetadata(key, value, target)
+    }
+  }) as ClassDecorator & MethodDecorator
+}
+
+/**
+ * Adds items to an array stored as metadata on a controller or handler, so repeated
+ * decorators accumulate. Decorators apply bottom-up, so items are prepended to keep
+ * the order in which the decorators are written.
+ */
+export const appendMetadata = (key: any, items: any[]): ClassDecorator & MethodDecorator => {
+  return ((target: any, propertyKey?: string | symbol) => {
+    const existing =
+      (propertyKey !== undefined
+        ? Reflect.getOwnMetadata(key, target, propertyKey)
+        : Reflect.getOwnMetadata(key, target)) || []
+    if (propertyKey !== undefined) {
+      Reflect.defineMetadata(key, [...items, ...existing], target, propertyKey)
+    } else {
+      Reflect.defineMetadata(key, [...items, ...existing], target)
+    }
+  }) as ClassDecorator & MethodDecorator
+}
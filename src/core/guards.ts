@@ -0,0 +1,54 @@
+import 'reflect-metadata'
+import { METADATA_KEYS } from './decorators'
+import { Constructor } from './di-container'
+import { appendMetadata, ExecutionContext } from './execution-context'
+
+/**
+ * Decides whether a request may reach the handler. Returning false rejects it
+ * with a 403; throwing rejects it with the thrown error.
+ */
+export interface CanActivate {
+  canActivate(context: ExecutionContext): boolean | Promise<boolean>
+}
+
+export interface CallHandler<T = any> {
+  /** Runs the rest of the chain (the next interceptors, then the handler). */
+  handle(): Promise<T>
+}
+
+/**
+ * Wraps the handler call: it can act before and after it, transform its result
+ * or map its errors.
+ *
+ * @example
+ * class TimingInterceptor implements Interceptor {
+ *   async intercept(context: ExecutionContext, next: CallHandler) {
+ *     const start = Date.now()
+ *     try {
+ *       return await next.handle()
+ *     } finally {
+ *       console.log(`${String(context.getHandlerName())} took ${Date.now() - start}ms`)
+ *     }
+ *   }
+ * }
+ */
+export interface Interceptor<T = any, R = any> {
+  intercept(context: ExecutionContext, next: CallHandler<T>): R | Promise<R>
+}
+
+/** A guard or interceptor instance, or a class resolved as `instantiate` in router.ts does. */
+export type Guard = CanActivate | Constructor<CanActivate>
+export type InterceptorLike = Interceptor | Constructor<Interceptor>
+
+/**
+ * Runs guards before the handler, after middleware. On a controller they apply to
+ * every handler; global guards run first, then controller guards, then method guards.
+ */
+export const UseGuards = (...guards: Guard[]) => appendMetadata(METADATA_KEYS.guards, guards)
+
+/**
+ * Wraps the handler with interceptors. The first interceptor is the outermost;
+ * global interceptors wrap controller interceptors, which wrap method interceptors.
+ */
+export const UseInterceptors = (...interceptors: InterceptorLike[]) =>
+  appendMetadata(METADATA_KEYS.interceptors, interceptors)
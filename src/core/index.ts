@@ -2,3 +2,13 @@ export * from './router'
 export * from './di-container'
 export * from './request-context.service'
 export * from './decorators'
+export * from './module'
+export * from './conditions'
+export * from './errors'
+export * from './pipes'
+export * from './execution-context'
+export * from './guards'
+export * from './exception-filters'
+export * from './versioning'
+export * from './sse'
+export * from './multipart'
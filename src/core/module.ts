@@ -0,0 +1,213 @@
+import 'reflect-metadata'
+import {
+  ComponentOptions,
+  Constructor,
+  Container,
+  describeToken,
+  DiToken,
+  RegistrationOptions,
+} from './di-container'
+import { METADATA_KEYS } from './decorators'
+
+/**
+ * A module provider: either a class, or a token with a provider definition.
+ *
+ * @example
+ * providers: [
+ *   UserService,
+ *   { provide: USER_REPOSITORY, useClass: PostgresUserRepository },
+ *   { provide: DB_POOL, useFactory: async () => createPool(), },
+ * ]
+ */
+export type Provider = Constructor | ({ provide: DiToken } & RegistrationOptions)
+
+export interface ModuleOptions {
+  /** Modules whose exported providers this module uses. */
+  imports?: Constructor[]
+  /** Providers owned by this module, private unless listed in `exports`. */
+  providers?: Provider[]
+  controllers?: Constructor[]
+  /** Provider tokens (or imported modules) made available to importing modules. */
+  exports?: DiToken[]
+  /** Route prefix applied to every controller of this module. */
+  prefix?: string
+}
+
+/**
+ * A module resolved from the module graph, with its own child container.
+ */
+export interface ModuleRef {
+  module: Constructor
+  options: ModuleOptions
+  container: Container
+  imports: ModuleRef[]
+  providedTokens: Set<DiToken>
+  exportedTokens: Set<DiToken>
+}
+
+/**
+ * Declares a module that groups providers and controllers.
+ *
+ * @example
+ * @Module({
+ *   imports: [DatabaseModule],
+ *   providers: [UserService],
+ *   controllers: [UserController],
+ *   exports: [UserService],
+ *   prefix: '/users',
+ * })
+ * export class UserModule {}
+ */
+export const Module = (options: ModuleOptions = {}): ClassDecorator => {
+  return (target: any) => {
+    Reflect.defineMetadata(METADATA_KEYS.module, options, target)
+  }
+}
+
+export function getModuleOptions(moduleClass: Constructor): ModuleOptions {
+  const options = Reflect.getMetadata(METADATA_KEYS.module, moduleClass)
+  if (!options) {
+    throw new Error(`[Module] '${moduleClass?.name}' is not decorated with @Module().`)
+  }
+  return options
+}
+
+function registerProvider(diContainer: Container, provider: Provider): DiToken {
+  if (typeof provider === 'function') {
+    const componentOptions: ComponentOptions =
+      Reflect.getMetadata(METADATA_KEYS.componentOptions, provider) || {}
+    diContainer.register(provider, { useClass: provider, scope: componentOptions.scope })
+    return provider
+  }
+  const { provide, ...registration } = provider
+  diContainer.register(provide, registration)
+  return provide
+}
+
+/**
+ * Walks the module graph from the root modules, imports first. Each module gets a
+ * child container of `parentContainer` holding its providers and controllers, plus
+ * the providers exported by the modules it imports. `overrides` replace the
+ * registration of matching module providers, which is how tests swap them for mocks.
+ * Throws when the graph has an import cycle or breaks a module boundary.
+ * @returns The modules in dependency order.
+ */
+export function resolveModuleGraph(
+  rootModules: Constructor[],
+  parentContainer: Container,
+  overrides: Map<DiToken, RegistrationOptions> = new Map()
+): ModuleRef[] {
+  const refs = new Map<Constructor, ModuleRef>()
+  const ordered: ModuleRef[] = []
+  const visiting: Constructor[] = []
+
+  const visit = (moduleClass: Constructor): ModuleRef => {
+    const existing = refs.get(moduleClass)
+    if (existing) return existing
+
+    if (visiting.includes(moduleClass)) {
+      const cycle = [...visiting.slice(visiting.indexOf(moduleClass)), moduleClass]
+      throw new Error(
+        `[Module] Circular module import detected: ${cycle.map((m) => m.name).join(' -> ')}.`
+      )
+    }
+
+    const options = getModuleOptions(moduleClass)
+    visiting.push(moduleClass)
+    const imports = (options.imports || []).map(visit)
+    visiting.pop()
+
+    const moduleContainer = parentContainer.createChild()
+    const providedTokens = new Set<DiToken>()
+    for (const provider of options.providers || []) {
+      providedTokens.add(registerProvider(moduleContainer, provider))
+    }
+    for (const controller of options.controllers || []) {
+      providedTokens.add(registerProvider(moduleContainer, controller))
+    }
+    overrides.forEach((registration, token) => {
+      if (providedTokens.has(token)) moduleContainer.register(token, registration)
+    })
+
+    const ref: ModuleRef = {
+      module: moduleClass,
+      options,
+      container: moduleContainer,
+      imports,
+      providedTokens,
+      exportedTokens: new Set(),
+    }
+
+    // Imported providers resolve through the exporting module, which owns their instances
+    for (const imported of imports) {
+      for (const token of Array.from(imported.exportedTokens)) {
+        if (moduleContainer.isRegisteredLocally(token)) continue
+        moduleContainer.register(token, { useExisting: token, from: imported.container })
+      }
+    }
+
+    for (const exported of options.exports || []) {
+      const reExportedModule = imports.find((imported) => imported.module === exported)
+      if (reExportedModule) {
+        reExportedModule.exportedTokens.forEach((token) => ref.exportedTokens.add(token))
+        continue
+      }
+      const isImported = imports.some((imported) => imported.exportedTokens.has(exported))
+      if (!providedTokens.has(exported) && !isImported) {
+        throw new Error(
+          `[Module] '${moduleClass.name}' exports '${describeToken(
+            exported
+          )}', which it neither provides nor imports.`
+        )
+      }
+      ref.exportedTokens.add(exported)
+    }
+
+    refs.set(moduleClass, ref)
+    ordered.push(ref)
+    return ref
+  }
+
+  rootModules.forEach(visit)
+  validateModuleBoundaries(ordered)
+  return ordered
+}
+
+/**
+ * Ensures no module depends on a provider that belongs to another module
+ * unless that module exports it and is imported.
+ */
+function validateModuleBoundaries(modules: ModuleRef[]): void {
+  const owners = new Map<DiToken, ModuleRef>()
+  for (const ref of modules) {
+    ref.providedTokens.forEach((token) => {
+      if (!owners.has(token)) owners.set(token, ref)
+    })
+  }
+
+  const errors: string[] = []
+  for (const ref of modules) {
+    for (const token of Array.from(ref.providedTokens)) {
+      for (const dependency of ref.container.getDependencyTokens(token)) {
+        if (ref.providedTokens.has(dependency)) continue
+        if (ref.imports.some((imported) => imported.exportedTokens.has(dependency))) continue
+
+        const owner = owners.get(dependency)
+        if (!owner) continue // Not module-scoped, resolved from the parent container
+
+        const reason = owner.exportedTokens.has(dependency)
+          ? `'${ref.module.name}' does not import '${owner.module.name}'`
+          : `'${owner.module.name}' does not export it`
+        errors.push(
+          `- '${describeToken(token)}' in '${ref.module.name}' depends on '${describeToken(
+            dependency
+          )}' from '${owner.module.name}', but ${reason}.`
+        )
+      }
+    }
+  }
+
+  if (errors.length > 0) {
+    throw new Error(`[Module] Module boundary violations:\n${errors.join('\n')}`)
+  }
+}
@@ -0,0 +1,274 @@
+import type { MultipartFile } from '@fastify/multipart'
+import { randomUUID } from 'crypto'
+import { FastifyInstance, FastifyRequest } from 'fastify'
+import { createWriteStream, promises as fs } from 'fs'
+import { tmpdir } from 'os'
+import { extname, join } from 'path'
+import { pipeline } from 'stream/promises'
+import { createParamDecorator, METADATA_KEYS, ParamMetadata, RouteMetadata } from './decorators'
+import { Constructor } from './di-container'
+import {
+  BadRequestException,
+  PayloadTooLargeException,
+  RequestValidationError,
+  UnsupportedMediaTypeException,
+} from './errors'
+import { loadOptionalPlugin } from './optional-plugin'
+import { Pipe } from './pipes'
+
+/**
+ * A file received in a multipart/form-data request.
+ */
+export interface FileUpload {
+  fieldname: string
+  /** The client's file name. Never use it as a path: disk storage picks its own. */
+  filename: string
+  mimetype: string
+  encoding: string
+  size: number
+  /** The file contents, with memory storage. */
+  buffer?: Buffer
+  /** Where the file was written, with disk storage. */
+  path?: string
+}
+
+export interface MultipartLimits {
+  /** Maximum size of each file, in bytes. Defaults to 1MB. */
+  fileSize?: number
+  /** Maximum number of files per request. */
+  files?: number
+  /** Maximum number of non-file fields per request. */
+  fields?: number
+  /** Maximum size of each non-file field, in bytes. */
+  fieldSize?: number
+}
+
+export interface MultipartOptions {
+  limits?: MultipartLimits
+  /**
+   * File types accepted by upload routes, exact (`image/png`) or by type (`image/*`).
+   * Other files are rejected with a 415. All types are accepted by default.
+   */
+  allowedMimeTypes?: string[]
+  /** Buffer files in `memory` (the default), or stream them to `disk`. */
+  storage?: 'memory' | 'disk'
+  /** Directory of disk storage. Defaults to the OS temp directory. */
+  dest?: string
+  /** Keep files of disk storage once the response is sent. By default they are deleted. */
+  preserveFiles?: boolean
+}
+
+export interface UploadedFileOptions {
+  /** Reject requests without the file. Defaults to true for `@UploadedFile`, false for `@UploadedFiles`. */
+  required?: boolean
+  /** File types accepted for this field, narrowing `allowedMimeTypes`. */
+  mimeTypes?: string[]
+  /** Maximum size of this field's files, in bytes, below the `fileSize` limit. */
+  maxSize?: number
+}
+
+/**
+ * The upload fields of a route, read from its `@UploadedFile` and `@UploadedFiles`
+ * parameters. A field without a name accepts the files of every field.
+ */
+export interface UploadField extends UploadedFileOptions {
+  field?: string
+  multiple: boolean
+}
+
+const uploadedFiles = new WeakMap<FastifyRequest, FileUpload[]>()
+
+/** The files of a multipart request, once its route parsed them. */
+export function getUploadedFiles(request: FastifyRequest): FileUpload[] {
+  return uploadedFiles.get(request) || []
+}
+
+const isUploadOptions = (value: unknown): value is UploadedFileOptions =>
+  typeof value === 'object' && value !== null && typeof (value as any).transform !== 'function'
+
+const UploadedFileParam = createParamDecorator<UploadField>(
+  (req, _reply, ctx) => getUploadedFiles(req).find((file) => file.fieldname === ctx.data.field),
+  'file'
+)
+const UploadedFilesParam = createParamDecorator<UploadField>(
+  (req, _reply, ctx) =>
+    getUploadedFiles(req).filter((file) => !ctx.data.field || file.fieldname === ctx.data.field),
+  'files'
+)
+
+/**
+ * Injects the file uploaded in a multipart/form-data field. The route's non-file
+ * fields become its body, validated by the `@Schema` body schema.
+ *
+ * @example
+ * @Post('/avatar')
+ * @Schema({ body: z.object({ caption: z.string().optional() }) })
+ * upload(
+ *   @UploadedFile('avatar', { mimeTypes: ['image/*'], maxSize: 2_000_000 }) avatar: FileUpload,
+ *   @Body() body: { caption?: string }
+ * ) {}
+ */
+export function UploadedFile(field: string, ...pipes: Pipe[]): ParameterDecorator
+export function UploadedFile(field: string, options: UploadedFileOptions, ...pipes: Pipe[]): ParameterDecorator
+export function UploadedFile(field: string, ...args: any[]): ParameterDecorator {
+  const options: UploadedFileOptions = isUploadOptions(args[0]) ? args.shift() : {}
+  return UploadedFileParam({ required: true, ...options, field, multiple: false }, ...args)
+}
+
+/**
+ * Injects the files uploaded in a multipart/form-data field, or in every field
+ * when no field is given.
+ */
+export function UploadedFiles(field?: string, ...pipes: Pipe[]): ParameterDecorator
+export function UploadedFiles(field: string | undefined, options: UploadedFileOptions, ...pipes: Pipe[]): ParameterDecorator
+export function UploadedFiles(field?: string, ...args: any[]): ParameterDecorator {
+  const options: UploadedFileOptions = isUploadOptions(args[0]) ? args.shift() : {}
+  return UploadedFilesParam({ required: false, ...options, field, multiple: true }, ...args)
+}
+
+/** The upload fields of a route's parameters; empty when it takes no files. */
+export function getUploadFields(params: (ParamMetadata | undefined)[]): UploadField[] {
+  return Array.from(params)
+    .filter((param): param is ParamMetadata => param?.type === 'file' || param?.type === 'files')
+    .map((param) => param.name as UploadField)
+}
+
+/** Whether a route of the controllers takes uploaded files. */
+export function hasUploadRoutes(controllers: Constructor[]): boolean {
+  return controllers.some((controllerClass) => {
+    const routes: RouteMetadata[] = Reflect.getMetadata(METADATA_KEYS.routes, controllerClass) || []
+    return routes.some(
+      (route) =>
+        getUploadFields(
+          Reflect.getMetadata(METADATA_KEYS.paramTypes, controllerClass.prototype, route.handlerName) ||
+            []
+        ).length > 0
+    )
+  })
+}
+
+/** Registers `@fastify/multipart` when the app doesn't have it yet. */
+export async function ensureMultipartPlugin(
+  app: FastifyInstance,
+  options: MultipartOptions = {}
+): Promise<void> {
+  if (app.hasContentTypeParser('multipart/form-data')) return
+  const { default: multipart } = await loadOptionalPlugin(
+    '@fastify/multipart',
+    '[Multipart] Upload routes',
+    () => import('@fastify/multipart')
+  )
+  await app.register(multipart, { limits: options.limits })
+}
+
+const matchesMimeType = (mimetype: string, allowed: string[]) =>
+  allowed.some((type) =>
+    type.endsWith('/*') ? mimetype.startsWith(type.slice(0, -1)) : mimetype === type
+  )
+
+// A repeated field becomes an array of its values
+const addField = (fields: Map<string, unknown>, name: string, value: unknown) => {
+  const existing = fields.get(name)
+  if (!fields.has(name)) fields.set(name, value)
+  else if (Array.isArray(existing)) existing.push(value)
+  else fields.set(name, [existing, value])
+}
+
+async function storeFile(part: MultipartFile, options: MultipartOptions): Promise<FileUpload> {
+  const { fieldname, filename, mimetype, encoding } = part
+  if (options.storage === 'disk') {
+    const path = join(options.dest || tmpdir(), `${randomUUID()}${extname(filename)}`)
+    try {
+      await pipeline(part.file, createWriteStream(path))
+    } catch (error) {
+      await fs.unlink(path).catch(() => undefined)
+      throw error
+    }
+    const { size } = await fs.stat(path)
+    return { fieldname, filename, mimetype, encoding, size, path }
+  }
+  const buffer = await part.toBuffer()
+  return { fieldname, filename, mimetype, encoding, size: buffer.length, buffer }
+}
+
+async function removeFiles(files: FileUpload[]) {
+  await Promise.all(
+    files.filter((file) => file.path).map((file) => fs.unlink(file.path!).catch(() => undefined))
+  )
+}
+
+/**
+ * Builds the preValidation hook of an upload route. It reads the parts of multipart
+ * requests: files are stored and checked against their field's rules, and the other
+ * fields become `request.body`, so the route's body schema validates them.
+ * @returns The hook, and an onResponse hook deleting files of disk storage.
+ */
+export function createMultipartHooks(fields: UploadField[], options: MultipartOptions = {}) {
+  const fieldFor = (name: string) =>
+    fields.find((field) => field.field === name) || fields.find((field) => field.field === undefined)
+
+  const preValidation = async (request: FastifyRequest) => {
+    const files: FileUpload[] = []
+    uploadedFiles.set(request, files)
+    // An app may parse multipart bodies with another plugin, which doesn't add isMultipart()
+    if (typeof request.isMultipart === 'function' && request.isMultipart()) {
+      const body = new Map<string, unknown>()
+      for await (const part of request.parts({ limits: options.limits })) {
+        if (part.type === 'field') {
+          addField(body, part.fieldname, part.value)
+          continue
+        }
+
+        const field = fieldFor(part.fieldname)
+        if (!field) {
+          part.file.resume()
+          throw new BadRequestException(`Unexpected file field '${part.fieldname}'`)
+        }
+        if (
+          (options.allowedMimeTypes && !matchesMimeType(part.mimetype, options.allowedMimeTypes)) ||
+          (field.mimeTypes && !matchesMimeType(part.mimetype, field.mimeTypes))
+        ) {
+          part.file.resume()
+          throw new UnsupportedMediaTypeException(
+            `File type '${part.mimetype}' is not accepted for '${part.fieldname}'`
+          )
+        }
+
+        const file = await storeFile(part, options)
+        files.push(file)
+        if (field.maxSize !== undefined && file.size > field.maxSize) {
+          throw new PayloadTooLargeException(
+            `'${part.fieldname}' files must not exceed ${field.maxSize} bytes`
+          )
+        }
+        if (!field.multiple && files.filter((f) => f.fieldname === part.fieldname).length > 1) {
+          throw new BadRequestException(`'${part.fieldname}' accepts a single file`)
+        }
+      }
+      request.body = Object.fromEntries(body)
+    }
+
+    const missing = fields.filter(
+      (field) =>
+        field.required && !files.some((file) => !field.field || file.fieldname === field.field)
+    )
+    if (missing.length > 0) {
+      throw new RequestValidationError(
+        missing.map((field) => ({
+          location: 'body',
+          path: field.field || '',
+          message: 'File is required',
+          code: 'file_required',
+        }))
+      )
+    }
+  }
+
+  const onResponse = async (request: FastifyRequest) => {
+    if (options.storage === 'disk' && !options.preserveFiles) {
+      await removeFiles(getUploadedFiles(request))
+    }
+  }
+
+  return { preValidation, onResponse }
+}
@@ -0,0 +1,19 @@
+/**
+ * Imports an optional dependency, installed only by apps using the feature that needs it.
+ * @param name - The package, named in the error when it isn't installed
+ * @param hint - What needs the package, prefixed with its log tag, e.g. `[Multipart] Upload routes`
+ * @param load - Imports the package, as `() => import(name)` with a literal name so its types are kept
+ */
+export async function loadOptionalPlugin<T>(
+  name: string,
+  hint: string,
+  load: () => Promise<T>
+): Promise<T> {
+  try {
+    return await load()
+  } catch (error) {
+    throw new Error(
+      `${hint} require '${name}'. Install it with 'npm install ${name}'. (${(error as Error).message})`
+    )
+  }
+}
@@ -0,0 +1,125 @@
+import { ZodSchema } from 'zod'
+import { Constructor } from './di-container'
+import { RequestValidationError, ValidationLocation } from './errors'
+
+/**
+ * Describes the handler argument a pipe is transforming.
+ */
+export interface ArgumentMetadata {
+  /** 'body', 'query', 'param', 'header', 'cookie'... or 'custom' */
+  type: string
+  /** The argument passed to the parameter decorator, e.g. 'id' in @Param('id') */
+  data?: any
+  /** The declared TypeScript type of the parameter, when emitted */
+  metatype?: any
+}
+
+/**
+ * Transforms or validates a handler argument before the handler receives it.
+ * Throw (typically a RequestValidationError) to reject the request.
+ */
+export interface PipeTransform<T = any, R = any> {
+  transform(value: T, metadata: ArgumentMetadata): R | Promise<R>
+}
+
+/** A pipe instance, or a pipe class resolved as `instantiate` in router.ts does. */
+export type Pipe = PipeTransform | Constructor<PipeTransform>
+
+const LOCATIONS: Record<string, ValidationLocation> = {
+  body: 'body',
+  query: 'query',
+  param: 'params',
+  header: 'headers',
+}
+
+/**
+ * Builds the validation error a pipe throws for an invalid argument.
+ */
+export function createPipeError(
+  metadata: ArgumentMetadata,
+  message: string,
+  code = 'invalid_type'
+): RequestValidationError {
+  return new RequestValidationError([
+    {
+      location: LOCATIONS[metadata.type],
+      path: typeof metadata.data === 'string' ? metadata.data : '',
+      message,
+      code,
+    },
+  ])
+}
+
+export class ParseIntPipe implements PipeTransform<unknown, number> {
+  transform(value: unknown, metadata: ArgumentMetadata): number {
+    if (typeof value === 'number' && Number.isInteger(value)) return value
+    if (typeof value !== 'string' || !/^[-+]?\d+$/.test(value.trim())) {
+      throw createPipeError(metadata, 'Expected an integer')
+    }
+    return parseInt(value, 10)
+  }
+}
+
+export class ParseFloatPipe implements PipeTransform<unknown, number> {
+  transform(value: unknown, metadata: ArgumentMetadata): number {
+    const parsed = typeof value === 'number' ? value : Number(value)
+    if (value === '' || value == null || Number.isNaN(parsed)) {
+      throw createPipeError(metadata, 'Expected a number')
+    }
+    return parsed
+  }
+}
+
+export class ParseBoolPipe implements PipeTransform<unknown, boolean> {
+  transform(value: unknown, metadata: ArgumentMetadata): boolean {
+    if (value === true || value === 'true' || value === '1') return true
+    if (value === false || value === 'false' || value === '0') return false
+    throw createPipeError(metadata, 'Expected a boolean')
+  }
+}
+
+const UUID_PATTERN = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i
+
+export class ParseUUIDPipe implements PipeTransform<unknown, string> {
+  transform(value: unknown, metadata: ArgumentMetadata): string {
+    if (typeof value !== 'string' || !UUID_PATTERN.test(value)) {
+      throw createPipeError(metadata, 'Expected a UUID', 'invalid_string')
+    }
+    return value
+  }
+}
+
+/**
+ * Replaces a missing (undefined, null or empty string) value. Place it before
+ * parsing pipes: `@Query('page', new DefaultValuePipe(1), ParseIntPipe)`.
+ */
+export class DefaultValuePipe<T = any> implements PipeTransform {
+  constructor(private readonly defaultValue: T) {}
+
+  transform(value: any): any {
+    return value === undefined || value === null || value === '' ? this.defaultValue : value
+  }
+}
+
+/**
+ * Parses the value with a Zod schema and passes on the parsed result.
+ */
+export class ZodValidationPipe<T = any> implements PipeTransform<unknown, T> {
+  constructor(private readonly schema: ZodSchema<T>) {}
+
+  transform(value: unknown, metadata: ArgumentMetadata): T {
+    const result = this.schema.safeParse(value)
+    if (result.success) return result.data
+
+    const location = LOCATIONS[metadata.type]
+    const prefix = typeof metadata.data === 'string' ? [metadata.data] : []
+    throw new RequestValidationError(
+      result.error.issues.map((issue) => ({
+        location,
+        path: [...prefix, ...issue.path].join('.'),
+        message: issue.message,
+        code: issue.code,
+      }))
+    )
+  }
+}
@@ -1,8 +1,8 @@
-import { AsyncLocalStorage } from 'async_hooks'
 import { Service } from './decorators'
+import { requestContextStore } from './request-context.store'
 
 // The actual storage instance. It's created once and exported.
-export const requestContextStore = new AsyncLocalStorage<Map<string, any>>()
+export { requestContextStore }
 
 @Service()
 export class RequestContextService {
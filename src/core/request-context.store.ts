@@ -0,0 +1,8 @@
+import { AsyncLocalStorage } from 'async_hooks'
+
+/**
+ * The AsyncLocalStorage instance backing the request context.
+ * Kept in its own module so that the DI container can read it without
+ * importing the decorated RequestContextService.
+ */
+export const requestContextStore = new AsyncLocalStorage<Map<string, any>>()
@@ -1,7 +1,45 @@
 import { FastifyInstance, FastifyReply, FastifyRequest, RouteOptions } from 'fastify'
+import { FastifySchemaCompiler } from 'fastify/types/schema'
+import { ZodSchema } from 'zod'
 import { zodToJsonSchema } from 'zod-to-json-schema'
-import { METADATA_KEYS, SwaggerOptions, ValidationDecoratorOptions } from './decorators'
-import { Constructor, container } from './di-container'
+import type { ILogger } from '../logging/core/interfaces'
+import { coerceToSchema } from './coercion'
+import {
+  FastifyMiddleware,
+  HttpMethod,
+  HttpMiddleware,
+  METADATA_KEYS,
+  MiddlewareLike,
+  MiddlewareMetadata,
+  ParamMetadata,
+  RedirectOptions,
+  RouteMetadata,
+  SwaggerOptions,
+  ValidationDecoratorOptions,
+} from './decorators'
+import { Constructor, Container, container } from './di-container'
+import {
+  ForbiddenException,
+  HandlerTimeoutError,
+  RequestValidationError,
+  ResponseValidationError,
+  ValidationLocation,
+} from './errors'
+import { ExceptionFilter, ExceptionFilterLike, findExceptionFilter } from './exception-filters'
+import { ArgumentsHost, ExecutionContext } from './execution-context'
+import { CanActivate, Guard, Interceptor, InterceptorLike } from './guards'
+import { createMultipartHooks, getUploadFields, MultipartOptions } from './multipart'
+import { PipeTransform } from './pipes'
+import { sendSse, SseOptions } from './sse'
+import {
+  createDeprecationHook,
+  createVersionConstraintStrategy,
+  getDeprecationHeaders,
+  getRouteVersions,
+  getVersionSegment,
+  VERSION_CONSTRAINT,
+  VersioningOptions,
+} from './versioning'
 
 /**
  * Normalize a URL prefix - ensures it starts with / and doesn't end with /
@@ -31,7 +69,7 @@ export function joinPaths(...paths: string[]): string {
  * @param methodMeta - Swagger metadata from method
  * @returns Merged metadata with method overrides and tag merging
  */
-function mergeSwaggerMetadata(
+export function mergeSwaggerMetadata(
   controllerMeta: SwaggerOptions | undefined,
   methodMeta: SwaggerOptions | undefined
 ): SwaggerOptions {
@@ -70,43 +108,230 @@ function buildFastifySchema(options: ValidationDecoratorOptions) {
   return schema
 }
 
+/**
+ * Builds a route validator compiler that runs the Zod schemas themselves instead of
+ * ajv on their JSON Schema copies, so transforms, defaults, refinements and coercions
+ * apply and the handler receives the parsed values.
+ */
+function buildZodValidatorCompiler(options: ValidationDecoratorOptions): FastifySchemaCompiler<any> {
+  const schemas: Record<string, [ZodSchema<any> | undefined, ValidationLocation]> = {
+    body: [options.body, 'body'],
+    querystring: [options.query, 'query'],
+    params: [options.params, 'params'],
+  }
+
+  return ({ httpPart }) => {
+    const [zodSchema, location] = schemas[httpPart || ''] || []
+    if (!zodSchema) return (data: any) => ({ value: data })
+
+    return (data: any) => {
+      // Querystrings and params are strings; convert them like Fastify's default validator
+      const input = location === 'body' ? data ?? undefined : coerceToSchema(zodSchema, data ?? undefined)
+      const result = zodSchema.safeParse(input)
+      return result.success
+        ? { value: result.data }
+        : { error: RequestValidationError.fromZodError(result.error, location) }
+    }
+  }
+}
+
+const ALL_METHODS: HttpMethod[] = ['DELETE', 'GET', 'HEAD', 'PATCH', 'POST', 'PUT', 'OPTIONS']
+
+/**
+ * Rejects with a HandlerTimeoutError when the result takes longer than `timeout` ms.
+ */
+function withTimeout<T>(result: Promise<T>, timeout?: number): Promise<T> {
+  if (!timeout) return result
+  let timer: NodeJS.Timeout
+  const expired = new Promise<never>((_, reject) => {
+    timer = setTimeout(() => reject(new HandlerTimeoutError(timeout)), timeout)
+  })
+  return Promise.race([result, expired]).finally(() => clearTimeout(timer))
+}
+
+/**
+ * Parses a handler's return value with the response schema of the reply's status
+ * code, which strips unknown fields and applies transforms before serialization.
+ */
+function serializeResponse(reply: FastifyReply, result: any, options?: ValidationDecoratorOptions) {
+  const responseSchema = options?.responses?.[reply.statusCode]
+  if (!responseSchema) return result
+
+  const parsed = responseSchema.safeParse(result)
+  if (!parsed.success) {
+    throw new ResponseValidationError(parsed.error, reply.statusCode)
+  }
+  return parsed.data
+}
+
+type HandlerParam = (request: FastifyRequest, reply: FastifyReply) => Promise<any>
+
+/**
+ * Turns an enhancer given as an instance or a class (a pipe, guard, interceptor,
+ * exception filter or middleware) into an instance. Classes are resolved from the
+ * container when registered there, and instantiated with `new` otherwise.
+ */
+export function instantiate<T>(provider: T | Constructor<T>, diContainer: Container): T {
+  if (typeof provider !== 'function') return provider
+  const ProviderClass = provider as Constructor<T>
+  return diContainer.isRegistered(ProviderClass)
+    ? diContainer.resolve<T>(ProviderClass)
+    : new ProviderClass()
+}
+
+/**
+ * Adapts function or class-based middleware to a Fastify hook. Classes are resolved
+ * on the first request, once the container has been initialized.
+ */
+export function toFastifyMiddleware(
+  middleware: MiddlewareLike,
+  diContainer: Container
+): FastifyMiddleware {
+  const isClassBased =
+    typeof middleware !== 'function' || typeof middleware.prototype?.use === 'function'
+  if (!isClassBased) return middleware as FastifyMiddleware
+
+  let instance: HttpMiddleware | undefined
+  return async (request, reply) => {
+    instance ??= instantiate<HttpMiddleware>(middleware as HttpMiddleware, diContainer)
+    await instance.use(request, reply)
+  }
+}
+
+/**
+ * Sorts middleware by order, falling back to the `@Middleware` order of their class.
+ * The sort is stable, so ties keep their declaration order.
+ */
+function orderMiddleware(entries: MiddlewareMetadata[]): MiddlewareLike[] {
+  const orderOf = ({ middleware, order }: MiddlewareMetadata) => {
+    if (order !== undefined) return order
+    const middlewareClass = typeof middleware === 'function' ? middleware : middleware.constructor
+    return Reflect.getMetadata(METADATA_KEYS.middlewareOptions, middlewareClass)?.order ?? 0
+  }
+  return [...entries]
+    .sort((a, b) => orderOf(a) - orderOf(b))
+    .map((entry) => entry.middleware)
+}
+
+/**
+ * Guards, interceptors and versioning applied to every controller of a registration call.
+ */
+export interface GlobalEnhancers {
+  guards?: Guard[]
+  interceptors?: InterceptorLike[]
+  versioning?: VersioningOptions
+  multipart?: MultipartOptions
+  /** Logs each registered route at debug level. */
+  logger?: Pick<ILogger, 'debug'>
+}
+
+/**
+ * Runs the guards in order and throws a ForbiddenException when one denies access.
+ */
+async function runGuards(guards: CanActivate[], context: ExecutionContext): Promise<void> {
+  for (const guard of guards) {
+    if (!(await guard.canActivate(context))) {
+      throw new ForbiddenException('Forbidden resource')
+    }
+  }
+}
+
+/**
+ * Calls the handler through the interceptor chain, the first interceptor outermost.
+ */
+function runInterceptors(
+  interceptors: Interceptor[],
+  context: ExecutionContext,
+  handle: () => Promise<any>
+): Promise<any> {
+  const next = (index: number): Promise<any> =>
+    index < interceptors.length
+      ? Promise.resolve(
+        interceptors[index].intercept(context, { handle: () => next(index + 1) })
+      )
+      : handle()
+  return next(0)
+}
+
+/**
+ * Prepares a resolver per handler parameter that computes the value with the
+ * parameter decorator's factory, then runs it through the parameter's pipes in order.
+ * Pipe classes are instantiated once, here.
+ */
+function buildHandlerParams(
+  controllerClass: Constructor,
+  handlerName: string | symbol,
+  params: (ParamMetadata | undefined)[],
+  diContainer: Container
+): (HandlerParam | undefined)[] {
+  const paramTypes: any[] =
+    Reflect.getMetadata('design:paramtypes', controllerClass.prototype, handlerName) || []
+
+  return Array.from(params, (param, index) => {
+    if (!param) return undefined
+    const pipes = param.pipes.map((pipe) => instantiate<PipeTransform>(pipe, diContainer))
+    const ctx = { data: param.name, controller: controllerClass, handlerName, index }
+    const metadata = { type: param.type, data: param.name, metatype: paramTypes[index] }
+
+    return async (request: FastifyRequest, reply: FastifyReply) => {
+      let value = await param.factory(request, reply, ctx)
+      for (const pipe of pipes) {
+        value = await pipe.transform(value, metadata)
+      }
+      return value
+    }
+  })
+}
+
 /**
  * Register controllers with Fastify
  * @param fastify - Fastify instance
  * @param controllers - Array of controller classes
  * @param groupPrefix - Optional prefix to prepend to all routes in this group
+ * @param diContainer - Container the controllers are resolved from (defaults to the global one)
+ * @param globalEnhancers - Guards and interceptors applied before the controllers' own
  */
 export function registerControllers(
   fastify: FastifyInstance,
   controllers: Constructor[],
-  groupPrefix: string = ''
+  groupPrefix: string = '',
+  diContainer: Container = container,
+  globalEnhancers: GlobalEnhancers = {}
 ) {
-  const prefixDisplay = groupPrefix ? ` (prefix: ${groupPrefix})` : ''
-  console.log(`📋 Registering controllers${prefixDisplay}...`)
-
   controllers.forEach((controllerClass) => {
     // 👇 Read controller-level middleware
     const classMiddlewares = Reflect.getMetadata(METADATA_KEYS.middleware, controllerClass) || []
-    const controllerInstance = container.resolve(controllerClass) as any
+    const controllerPrototype = controllerClass.prototype
+    // Request-scoped controllers are resolved inside the handler, once per request
+    const isRequestScoped = diContainer.getScope(controllerClass) === 'request'
+    const singletonInstance = isRequestScoped ? undefined : (diContainer.resolve(controllerClass) as any)
     const prefix = Reflect.getMetadata(METADATA_KEYS.controllerPrefix, controllerClass) || ''
-    const routes = Reflect.getMetadata(METADATA_KEYS.routes, controllerClass) || []
+    const routes: RouteMetadata[] = Reflect.getMetadata(METADATA_KEYS.routes, controllerClass) || []
 
     // 🆕 Read controller-level Swagger metadata
     const controllerSwaggerMeta: SwaggerOptions | undefined =
       Reflect.getMetadata(METADATA_KEYS.swaggerMetadata, controllerClass)
 
-    routes.forEach((route: any) => {
+    routes.forEach((route) => {
+      const { timeout, exposeHeadRoute, ...fastifyRouteOptions } = route.options || {}
       // 👇 Read method-level middleware
       const methodMiddlewares =
-        Reflect.getMetadata(METADATA_KEYS.middleware, controllerInstance, route.handlerName) || []
-      const allMiddlewares = [...classMiddlewares, ...methodMiddlewares] // Combine them
+        Reflect.getMetadata(METADATA_KEYS.middleware, controllerPrototype, route.handlerName) || []
+      const allMiddlewares = orderMiddleware([...classMiddlewares, ...methodMiddlewares]).map(
+        (middleware) => toFastifyMiddleware(middleware, diContainer)
+      )
 
-      const handler = controllerInstance[route.handlerName].bind(controllerInstance)
-      const paramDecorators =
-        Reflect.getMetadata(METADATA_KEYS.paramTypes, controllerInstance, route.handlerName) || []
+      const paramDecorators: (ParamMetadata | undefined)[] =
+        Reflect.getMetadata(METADATA_KEYS.paramTypes, controllerPrototype, route.handlerName) || []
+      const handlerParams = buildHandlerParams(
+        controllerClass,
+        route.handlerName,
+        paramDecorators,
+        diContainer
+      )
       const validationSchemas = Reflect.getMetadata(
         METADATA_KEYS.validationSchema,
-        controllerInstance,
+        controllerPrototype,
         route.handlerName
       )
 
@@ -116,7 +341,7 @@ export function registerControllers(
       // 🆕 Read method-level Swagger metadata
       const methodSwaggerMeta: SwaggerOptions | undefined = Reflect.getMetadata(
         METADATA_KEYS.swaggerMetadata,
-        controllerInstance,
+        controllerPrototype,
         route.handlerName
       )
 
@@ -138,49 +363,147 @@ export function registerControllers(
         }
       }
 
+      // An explicit @Head() on the same path replaces the HEAD route Fastify derives from GET
+      const hasExplicitHead = routes.some(
+        (other) => other.method === 'HEAD' && other.path === route.path
+      )
+      const httpCode: number | undefined = Reflect.getMetadata(
+        METADATA_KEYS.httpCode,
+        controllerPrototype,
+        route.handlerName
+      )
+      const responseHeaders: Record<string, string> =
+        Reflect.getMetadata(METADATA_KEYS.responseHeaders, controllerPrototype, route.handlerName) ||
+        {}
+      const redirect: RedirectOptions | undefined = Reflect.getMetadata(
+        METADATA_KEYS.redirect,
+        controllerPrototype,
+        route.handlerName
+      )
+      const sseOptions: SseOptions | undefined = Reflect.getMetadata(
+        METADATA_KEYS.sse,
+        controllerPrototype,
+        route.handlerName
+      )
+
+      const guards = [
+        ...(globalEnhancers.guards || []),
+        ...(Reflect.getMetadata(METADATA_KEYS.guards, controllerClass) || []),
+        ...(Reflect.getMetadata(METADATA_KEYS.guards, controllerPrototype, route.handlerName) || []),
+      ].map((guard: Guard) => instantiate<CanActivate>(guard, diContainer))
+      const interceptors = [
+        ...(globalEnhancers.interceptors || []),
+        ...(Reflect.getMetadata(METADATA_KEYS.interceptors, controllerClass) || []),
+        ...(Reflect.getMetadata(METADATA_KEYS.interceptors, controllerPrototype, route.handlerName) ||
+          []),
+      ].map((interceptor: InterceptorLike) => instantiate<Interceptor>(interceptor, diContainer))
+      // Global filters run from the app's error handler, which also sees non-route errors
+      const filters = [
+        ...(Reflect.getMetadata(METADATA_KEYS.filters, controllerPrototype, route.handlerName) || []),
+        ...(Reflect.getMetadata(METADATA_KEYS.filters, controllerClass) || []),
+      ].map((filter: ExceptionFilterLike) => instantiate<ExceptionFilter>(filter, diContainer))
+
+      // Upload routes read multipart parts before validation, so the body schema sees the fields
+      const uploadFields = getUploadFields(paramDecorators)
+      const multipartHooks =
+        uploadFields.length > 0 ? createMultipartHooks(uploadFields, globalEnhancers.multipart) : undefined
+
+      // Guards run before validation, so unauthorized callers never see schema details
+      const guardHook = async (request: FastifyRequest, reply: FastifyReply) => {
+        try {
+          await runGuards(guards, new ExecutionContext(request, reply, controllerClass, route.handlerName))
+        } catch (error) {
+          const filter = findExceptionFilter(filters, error)
+          if (!filter) throw error
+          await filter.catch(error, new ArgumentsHost(request, reply))
+          return reply
+        }
+      }
+
       const routeOptions: RouteOptions = {
-        method: route.method,
+        ...fastifyRouteOptions,
+        method: route.method === 'ALL' ? ALL_METHODS : route.method,
         url,
+        exposeHeadRoute:
+          route.method === 'ALL' || (route.method === 'GET' && hasExplicitHead)
+            ? false
+            : exposeHeadRoute,
         schema,
+        validatorCompiler: validationSchemas ? buildZodValidatorCompiler(validationSchemas) : undefined,
+        // Responses are already parsed by their Zod schema, so skip fast-json-stringify
+        serializerCompiler: validationSchemas?.responses ? () => JSON.stringify : undefined,
+        // Guards, then multipart parsing, before validation
+        preValidation: [
+          ...(guards.length > 0 ? [guardHook] : []),
+          ...(multipartHooks ? [multipartHooks.preValidation] : []),
+        ],
+        onResponse: multipartHooks?.onResponse,
         // 👇 Attach all middleware functions to the preHandler hook
         preHandler: allMiddlewares,
         handler: async (request: FastifyRequest, reply: FastifyReply) => {
           try {
-            const args = paramDecorators.map((param: any) => {
-              if (!param) return undefined
-              switch (param.type) {
-                case 'body':
-                  return request.body
-                case 'query':
-                  return param.name ? (request.query as any)[param.name] : request.query
-                case 'param':
-                  return (request.params as any)[param.name]
-                case 'request':
-                  return request
-                case 'reply':
-                  return reply
-                default:
-                  return undefined
-              }
+            const context = new ExecutionContext(request, reply, controllerClass, route.handlerName)
+
+            if (httpCode) reply.status(httpCode)
+            reply.headers(responseHeaders)
+
+            const result = await runInterceptors(interceptors, context, async () => {
+              const args = await Promise.all(
+                handlerParams.map((param) => (param ? param(request, reply) : undefined))
+              )
+              const controllerInstance =
+                singletonInstance ?? (diContainer.resolve(controllerClass) as any)
+              return withTimeout(
+                Promise.resolve(controllerInstance[route.handlerName](...args)),
+                timeout
+              )
             })
 
-            const result = await handler(...args)
+            if (reply.sent) return
 
-            if (!reply.sent) {
-              return result
+            if (sseOptions) {
+              return sendSse(request, reply, result, sseOptions)
+            }
+            if (redirect) {
+              return reply.redirect(result?.url || redirect.url, result?.statusCode || redirect.statusCode)
             }
+            return serializeResponse(reply, result, validationSchemas)
           } catch (error) {
-            throw error
+            const filter = findExceptionFilter(filters, error)
+            if (!filter) throw error
+            return filter.catch(error, new ArgumentsHost(request, reply))
           }
         },
       }
 
-      fastify.route(routeOptions)
-      console.log(
-        `  ✓  Registered: ${route.method.padEnd(7)} ${url} (middlewares: ${allMiddlewares.length
-        })`
-      )
+      // A versioned route is registered once per version, as a path segment or a constraint
+      const { versioning } = globalEnhancers
+      const versions = versioning
+        ? getRouteVersions(controllerClass, route.handlerName, versioning)
+        : undefined
+      if (versions && versioning!.type !== 'uri' && !fastify.hasConstraintStrategy(VERSION_CONSTRAINT)) {
+        fastify.addConstraintStrategy(createVersionConstraintStrategy(versioning!))
+      }
+
+      for (const version of versions || [undefined]) {
+        const versionedRoute: RouteOptions = { ...routeOptions }
+        if (version !== undefined) {
+          if (versioning!.type === 'uri') {
+            versionedRoute.url = joinPaths(groupPrefix, getVersionSegment(version, versioning!), prefix, route.path)
+          } else {
+            versionedRoute.constraints = { ...routeOptions.constraints, [VERSION_CONSTRAINT]: version }
+          }
+          const deprecationHeaders = getDeprecationHeaders(version, versioning!)
+          if (deprecationHeaders) versionedRoute.onSend = createDeprecationHook(deprecationHeaders)
+        }
+
+        fastify.route(versionedRoute)
+        globalEnhancers.logger?.debug(`Registered route ${route.method} ${versionedRoute.url}`, {
+          controller: controllerClass.name,
+          ...(version !== undefined && { version }),
+          middlewares: allMiddlewares.length,
+        })
+      }
     })
   })
-  console.log('✅ All controllers registered successfully!\n')
 }
@@ -0,0 +1,244 @@
+import { FastifyReply, FastifyRequest } from 'fastify'
+import { OutgoingHttpHeaders } from 'http'
+import 'reflect-metadata'
+import { createParamDecorator, Get, METADATA_KEYS } from './decorators'
+
+/**
+ * A Server-Sent Events message. Non-string `data` is sent as JSON.
+ */
+export interface SseMessage<T = unknown> {
+  data: T
+  id?: string | number
+  event?: string
+  /** Reconnection delay the client should use, in milliseconds. */
+  retry?: number
+}
+
+/** The minimal observable contract (RxJS and similar libraries). */
+export interface ObservableLike<T> {
+  subscribe(observer: {
+    next: (value: T) => void
+    error: (error: unknown) => void
+    complete: () => void
+  }): { unsubscribe(): void } | (() => void)
+}
+
+/** What an `@Sse` handler returns. */
+export type SseSource<T = unknown> = AsyncIterable<SseMessage<T>> | ObservableLike<SseMessage<T>>
+
+export interface SseOptions {
+  /** Interval of the comment frames keeping proxies from closing idle streams. Defaults to 15s; 0 disables them. */
+  heartbeatInterval?: number
+  /** Reconnection delay sent to clients when the stream opens, in milliseconds. */
+  retry?: number
+}
+
+const DEFAULT_HEARTBEAT_INTERVAL = 15000
+
+/**
+ * Declares a GET route streaming Server-Sent Events. The handler returns an
+ * `AsyncIterable` (such as an async generator) or an observable of messages; each
+ * message is written as an event until the source completes or the client
+ * disconnects, which ends the iteration or unsubscribes.
+ *
+ * @example
+ * @Sse('/jobs/:id/progress')
+ * async *progress(@Param('id') id: string, @LastEventId() lastEventId?: string) {
+ *   for await (const step of this.jobs.watch(id, lastEventId)) {
+ *     yield { id: step.sequence, event: 'progress', data: step }
+ *   }
+ * }
+ */
+export const Sse = (path: string = '/', options: SseOptions = {}): MethodDecorator => {
+  return (target: any, propertyKey: string | symbol, descriptor: PropertyDescriptor) => {
+    Get(path, { exposeHeadRoute: false })(target, propertyKey, descriptor)
+    Reflect.defineMetadata(METADATA_KEYS.sse, options, target, propertyKey)
+  }
+}
+
+/** The `Last-Event-ID` a reconnecting client sends, to resume after the last event it received. */
+export const LastEventId = createParamDecorator((req) => {
+  const header = req.headers['last-event-id']
+  return (Array.isArray(header) ? header[0] : header) || undefined
+}, 'header')
+
+/**
+ * An async iterator fed by pushes, used to turn callbacks into SSE sources. `onClose`
+ * runs when the consumer stops iterating, for example when the client disconnects.
+ *
+ * @example
+ * const queue = new AsyncEventQueue<SseMessage>(() => emitter.off('tick', listener))
+ * const listener = (tick) => queue.push({ data: tick })
+ * emitter.on('tick', listener)
+ * return queue
+ */
+export class AsyncEventQueue<T> implements AsyncIterableIterator<T> {
+  private readonly values: T[] = []
+  private pending?: { resolve: (result: IteratorResult<T>) => void; reject: (error: unknown) => void }
+  private ended = false
+  private failure?: { error: unknown }
+
+  constructor(private readonly onClose?: () => void) {}
+
+  push(value: T): void {
+    if (this.ended) return
+    if (this.pending) {
+      this.settle({ value, done: false })
+    } else {
+      this.values.push(value)
+    }
+  }
+
+  /** Ends the iteration once the pushed values are consumed, failing it when `error` is given. */
+  end(error?: unknown): void {
+    if (this.ended) return
+    this.ended = true
+    if (error !== undefined) this.failure = { error }
+    if (this.pending) this.settleEnd()
+  }
+
+  next(): Promise<IteratorResult<T>> {
+    if (this.values.length > 0) {
+      return Promise.resolve({ value: this.values.shift()!, done: false })
+    }
+    if (this.ended) {
+      const failure = this.failure
+      this.failure = undefined
+      return failure ? Promise.reject(failure.error) : Promise.resolve({ value: undefined, done: true })
+    }
+    return new Promise((resolve, reject) => {
+      this.pending = { resolve, reject }
+    })
+  }
+
+  return(): Promise<IteratorResult<T>> {
+    this.values.length = 0
+    this.failure = undefined
+    if (!this.ended) {
+      this.ended = true
+      this.onClose?.()
+    }
+    if (this.pending) this.settle({ value: undefined, done: true })
+    return Promise.resolve({ value: undefined, done: true })
+  }
+
+  [Symbol.asyncIterator](): AsyncIterableIterator<T> {
+    return this
+  }
+
+  private settle(result: IteratorResult<T>) {
+    const pending = this.pending!
+    this.pending = undefined
+    pending.resolve(result)
+  }
+
+  private settleEnd() {
+    const pending = this.pending!
+    this.pending = undefined
+    const failure = this.failure
+    this.failure = undefined
+    if (failure) pending.reject(failure.error)
+    else pending.resolve({ value: undefined, done: true })
+  }
+}
+
+/** Formats a message as an event-stream frame. */
+export function formatSseMessage(message: SseMessage): string {
+  const singleLine = (value: string | number) => String(value).replace(/[\r\n]/g, ' ')
+  let frame = ''
+  if (message.id !== undefined) frame += `id: ${singleLine(message.id)}\n`
+  if (message.event) frame += `event: ${singleLine(message.event)}\n`
+  if (message.retry !== undefined) frame += `retry: ${message.retry}\n`
+
+  const data = typeof message.data === 'string' ? message.data : JSON.stringify(message.data)
+  for (const line of (data ?? '').split(/\r\n|\r|\n/)) {
+    frame += `data: ${line}\n`
+  }
+  return frame + '\n'
+}
+
+function toAsyncIterator<T>(source: SseSource<T>): AsyncIterator<SseMessage<T>> {
+  if (source && typeof (source as any)[Symbol.asyncIterator] === 'function') {
+    return (source as AsyncIterable<SseMessage<T>>)[Symbol.asyncIterator]()
+  }
+  if (source && typeof (source as any).subscribe === 'function') {
+    let subscription: { unsubscribe(): void } | (() => void) | undefined
+    let closed = false
+    const queue = new AsyncEventQueue<SseMessage<T>>(() => {
+      closed = true
+      if (typeof subscription === 'function') subscription()
+      else subscription?.unsubscribe()
+    })
+    subscription = (source as ObservableLike<SseMessage<T>>).subscribe({
+      next: (value) => queue.push(value),
+      error: (error) => queue.end(error),
+      complete: () => queue.end(),
+    })
+    // The source may have been closed before subscribe() returned
+    if (closed) {
+      if (typeof subscription === 'function') subscription()
+      else subscription?.unsubscribe()
+    }
+    return queue
+  }
+  throw new Error('[SSE] An @Sse handler must return an AsyncIterable or an observable.')
+}
+
+/**
+ * Streams a source as `text/event-stream`, with heartbeats, until it completes or the
+ * client disconnects. The reply is hijacked, so headers set on it earlier are copied
+ * to the stream. A source failing after the stream opened ends it with an `error` event.
+ */
+export async function sendSse(
+  request: FastifyRequest,
+  reply: FastifyReply,
+  source: SseSource,
+  options: SseOptions = {}
+): Promise<void> {
+  const iterator = toAsyncIterator(source)
+  const response = reply.raw
+
+  reply.hijack()
+  response.writeHead(200, {
+    ...(reply.getHeaders() as OutgoingHttpHeaders),
+    'content-type': 'text/event-stream; charset=utf-8',
+    'cache-control': 'no-cache, no-transform',
+    connection: 'keep-alive',
+    // Disables response buffering in nginx
+    'x-accel-buffering': 'no',
+  })
+  response.write(options.retry !== undefined ? `retry: ${options.retry}\n\n` : ': connected\n\n')
+
+  let disconnected = false
+  const heartbeatInterval = options.heartbeatInterval ?? DEFAULT_HEARTBEAT_INTERVAL
+  const heartbeat =
+    heartbeatInterval > 0
+      ? setInterval(() => response.write(': heartbeat\n\n'), heartbeatInterval)
+      : undefined
+  // Stop the heartbeat and release the source as soon as the client goes away
+  const onClose = () => {
+    disconnected = true
+    clearInterval(heartbeat)
+    Promise.resolve(iterator.return?.()).catch((error) =>
+      request.log.error({ err: error }, 'SSE source failed to close')
+    )
+  }
+  response.on('close', onClose)
+
+  try {
+    while (!disconnected) {
+      const { value, done } = await iterator.next()
+      if (done || disconnected) break
+      response.write(formatSseMessage(value))
+    }
+  } catch (error) {
+    request.log.error({ err: error }, 'SSE source failed')
+    if (!disconnected) {
+      response.write(formatSseMessage({ event: 'error', data: { message: 'Stream failed' } }))
+    }
+  } finally {
+    clearInterval(heartbeat)
+    response.off('close', onClose)
+    if (!response.writableEnded) response.end()
+  }
+}
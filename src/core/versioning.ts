@@ -0,0 +1,161 @@
+import { FastifyReply, FastifyRequest } from 'fastify'
+import 'reflect-metadata'
+import { METADATA_KEYS } from './decorators'
+import { Constructor } from './di-container'
+
+export type VersioningType = 'uri' | 'header' | 'media-type'
+
+export interface VersionDeprecation {
+  /** When the version was deprecated, sent as the `Deprecation` date. */
+  since?: Date
+  /** When the version stops being served, sent as the `Sunset` date. */
+  sunset?: Date
+  /** Documentation about the deprecation, sent as a `Link` with `rel="deprecation"`. */
+  link?: string
+}
+
+export interface VersioningOptions {
+  /**
+   * - `uri`: the version is a path segment, `/v2/users`
+   * - `header`: the version is sent in a header, `X-API-Version: 2`
+   * - `media-type`: the version is an Accept parameter, `Accept: application/json;v=2`
+   */
+  type: VersioningType
+  /** Prefix of the `uri` version segment. Defaults to `v`. */
+  prefix?: string
+  /** Header read by `header` versioning. Defaults to `X-API-Version`. */
+  header?: string
+  /** Accept parameter read by `media-type` versioning. Defaults to `v`. */
+  key?: string
+  /**
+   * Version of controllers and routes without `@Version`, and, for `header` and
+   * `media-type` versioning, of requests that don't ask for one. Without it, such
+   * routes are unversioned.
+   */
+  defaultVersion?: string
+  /** Deprecated versions. Their responses carry `Deprecation` and `Sunset` headers. */
+  deprecations?: Record<string, VersionDeprecation>
+}
+
+/** Name of the Fastify route constraint used by `header` and `media-type` versioning. */
+export const VERSION_CONSTRAINT = 'apiVersion'
+
+/**
+ * Sets the API versions served by a controller or a route. A method's versions
+ * replace its controller's. Takes effect once versioning is enabled with
+ * `BootifyApp.enableVersioning()`.
+ *
+ * @example
+ * @Controller('/users')
+ * @Version('2')
+ * class UserControllerV2 {
+ *   @Get('/')
+ *   list() {}
+ *
+ *   @Get('/:id')
+ *   @Version('1', '2') // Also served as version 1
+ *   getById() {}
+ * }
+ */
+export const Version = (...versions: string[]): ClassDecorator & MethodDecorator => {
+  return ((target: any, propertyKey?: string | symbol) => {
+    if (propertyKey !== undefined) {
+      Reflect.defineMetadata(METADATA_KEYS.version, versions, target, propertyKey)
+    } else {
+      Reflect.defineMetadata(METADATA_KEYS.version, versions, target)
+    }
+  }) as ClassDecorator & MethodDecorator
+}
+
+/**
+ * The versions a route is served as, or undefined when it is unversioned.
+ */
+export function getRouteVersions(
+  controllerClass: Constructor,
+  handlerName: string | symbol,
+  options: VersioningOptions
+): string[] | undefined {
+  const versions: string[] | undefined =
+    Reflect.getMetadata(METADATA_KEYS.version, controllerClass.prototype, handlerName) ||
+    Reflect.getMetadata(METADATA_KEYS.version, controllerClass)
+  if (versions?.length) return versions
+  return options.defaultVersion !== undefined ? [options.defaultVersion] : undefined
+}
+
+/** The path segment of a version under `uri` versioning, such as `/v2`. */
+export function getVersionSegment(version: string, options: VersioningOptions): string {
+  return `/${options.prefix ?? 'v'}${version}`
+}
+
+const escapeRegExp = (value: string) => value.replace(/[.*+?^${}()|[\]\\]/g, '\\$&')
+
+/**
+ * Reads the requested version from the header or the Accept parameter, falling back
+ * to the default version.
+ */
+export function getRequestedVersion(
+  request: FastifyRequest,
+  options: VersioningOptions
+): string | undefined {
+  if (options.type === 'header') {
+    const header = request.headers[(options.header || 'X-API-Version').toLowerCase()]
+    const version = Array.isArray(header) ? header[0] : header
+    return version?.trim() || options.defaultVersion
+  }
+  if (options.type === 'media-type') {
+    const key = escapeRegExp(options.key || 'v')
+    const match = (request.headers.accept || '').match(new RegExp(`;\\s*${key}=([^;,\\s]+)`))
+    return match?.[1] || options.defaultVersion
+  }
+  return undefined
+}
+
+/**
+ * A Fastify constraint strategy routing requests to the route of the version they ask
+ * for. Requests for an unknown version fall back to unversioned routes.
+ */
+export function createVersionConstraintStrategy(options: VersioningOptions) {
+  return {
+    name: VERSION_CONSTRAINT,
+    mustMatchWhenDerived: false,
+    storage() {
+      const stores = new Map<string, any>()
+      return {
+        get: (version: string) => stores.get(version) ?? null,
+        set: (version: string, store: any) => {
+          stores.set(version, store)
+        },
+      }
+    },
+    deriveConstraint: (request: any) => getRequestedVersion(request, options),
+  }
+}
+
+/**
+ * The headers announcing that a version is deprecated (RFC 9745) and when it is
+ * removed (RFC 8594), or undefined when it isn't deprecated.
+ */
+export function getDeprecationHeaders(
+  version: string,
+  options: VersioningOptions
+): Record<string, string> | undefined {
+  const deprecation = options.deprecations?.[version]
+  if (!deprecation) return undefined
+
+  const headers: Record<string, string> = {
+    Deprecation: deprecation.since ? `@${Math.floor(deprecation.since.getTime() / 1000)}` : 'true',
+  }
+  if (deprecation.sunset) headers.Sunset = deprecation.sunset.toUTCString()
+  if (deprecation.link) headers.Link = `<${deprecation.link}>; rel="deprecation"`
+  return headers
+}
+
+/**
+ * An onSend hook adding the deprecation headers of a version, including to error responses.
+ */
+export function createDeprecationHook(headers: Record<string, string>) {
+  return async (_request: FastifyRequest, reply: FastifyReply, payload: unknown) => {
+    reply.headers(headers)
+    return payload
+  }
+}
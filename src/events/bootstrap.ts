@@ -29,7 +29,7 @@ export function bootstrapEventSystem(components: Constructor[], options: EventSy
     console.log('  - Initializing Buffered Event Processing...')
     bufferedEventBus = new BufferedEventBusService(options.bufferedEventConfig || {})
     // Register the buffered event bus in the container for DI
-    container.register(BufferedEventBusService, { useFactory: () => bufferedEventBus })
+    container.register(BufferedEventBusService, { useValue: bufferedEventBus })
   }
 
   for (const component of components) {
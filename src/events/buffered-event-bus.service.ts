@@ -496,6 +496,11 @@ export class BufferedEventBusService extends EventEmitter {
     if (this.syncProcessingInterval) {
       clearInterval(this.syncProcessingInterval);
     }
+
+    // Flush events still queued for synchronous processing
+    while (this.syncProcessingQueue.length > 0) {
+      await this.processSyncEvent(this.syncProcessingQueue.shift()!);
+    }
     
     // Shutdown components
     if (this.workerManager) {
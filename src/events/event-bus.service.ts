@@ -27,9 +27,10 @@ export class EventBusService {
   /**
    * Subscribes an event handler to a specific event type.
    * This is used internally by the framework during bootstrap.
+   * @returns A function that unsubscribes the handler.
    */
-  subscribe<T extends IEvent>(eventType: string, handler: IEventHandler<T>): void {
-    this.emitter.on(eventType, async (event: T) => {
+  subscribe<T extends IEvent>(eventType: string, handler: IEventHandler<T>): () => void {
+    const listener = async (event: T) => {
       let attempt = 0
       while (attempt < this.options.maxRetries) {
         try {
@@ -53,7 +54,11 @@ export class EventBusService {
           }
         }
       }
-    })
+    }
+    this.emitter.on(eventType, listener)
+    return () => {
+      this.emitter.off(eventType, listener)
+    }
   }
 
   /**
@@ -0,0 +1,91 @@
+import { Service } from '../core/decorators'
+import { AsyncEventQueue, SseMessage } from '../core/sse'
+import { EventBusService } from './event-bus.service'
+import { IEvent } from './event.types'
+
+export interface EventStreamOptions {
+  /** The `Last-Event-ID` of a reconnecting client. Recorded events after it are replayed first. */
+  lastEventId?: string
+  /**
+   * Maps an event to the message sent for it; returning undefined skips the event.
+   * Defaults to `{ event: event.type, data: event.payload }`. Ids are set by the stream.
+   */
+  map?: (event: IEvent) => Omit<SseMessage, 'id'> | undefined
+}
+
+interface RecordedEvent {
+  id: number
+  event: IEvent
+}
+
+/** Number of recent events kept for clients resuming with Last-Event-ID. */
+const HISTORY_SIZE = 100
+
+/**
+ * Exposes event bus events as Server-Sent Events feeds. Events get sequential ids,
+ * and the most recent ones are kept so that reconnecting clients receive the events
+ * they missed.
+ *
+ * @example
+ * @Controller('/orders')
+ * export class OrderEventsController {
+ *   constructor(private readonly events: EventStreamService) {}
+ *
+ *   @Sse('/events')
+ *   stream(@LastEventId() lastEventId?: string) {
+ *     return this.events.stream(['order.created', 'order.shipped'], { lastEventId })
+ *   }
+ * }
+ */
+@Service()
+export class EventStreamService {
+  private sequence = 0
+  private readonly history: RecordedEvent[] = []
+  private readonly trackedTypes = new Set<string>()
+  private readonly listeners = new Set<(recorded: RecordedEvent) => void>()
+
+  constructor(private readonly eventBus: EventBusService) {}
+
+  /**
+   * Starts recording events of these types. Streams do this on their first use; call
+   * it at startup so that events emitted before any client connects can be replayed.
+   */
+  track(...eventTypes: string[]): void {
+    for (const eventType of eventTypes) {
+      if (this.trackedTypes.has(eventType)) continue
+      this.trackedTypes.add(eventType)
+      this.eventBus.subscribe(eventType, { handle: (event) => this.record(event) })
+    }
+  }
+
+  /**
+   * A feed of the events of the given types, to return from an `@Sse` handler. It ends
+   * its event bus listener when the client disconnects.
+   */
+  stream(eventTypes: string | string[], options: EventStreamOptions = {}): AsyncIterable<SseMessage> {
+    const types = new Set(Array.isArray(eventTypes) ? eventTypes : [eventTypes])
+    this.track(...Array.from(types))
+
+    const toMessage = options.map || ((event: IEvent) => ({ event: event.type, data: event.payload }))
+    const queue = new AsyncEventQueue<SseMessage>(() => this.listeners.delete(listener))
+    const listener = ({ id, event }: RecordedEvent) => {
+      if (!types.has(event.type)) return
+      const message = toMessage(event)
+      if (message) queue.push({ ...message, id })
+    }
+
+    const lastEventId = Number(options.lastEventId)
+    if (options.lastEventId !== undefined && Number.isInteger(lastEventId)) {
+      this.history.filter((recorded) => recorded.id > lastEventId).forEach(listener)
+    }
+    this.listeners.add(listener)
+    return queue
+  }
+
+  private record(event: IEvent): void {
+    const recorded = { id: ++this.sequence, event }
+    this.history.push(recorded)
+    if (this.history.length > HISTORY_SIZE) this.history.shift()
+    this.listeners.forEach((listener) => listener(recorded))
+  }
+}
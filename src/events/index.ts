@@ -1,5 +1,6 @@
 export * from './bootstrap'
 export * from './event-bus.service'
+export * from './event-stream.service'
 export * from './buffered-event-bus.service'
 export * from './event.types'
 export * from './decorators'
@@ -89,7 +89,7 @@ async function main() {
   const { middleware: jwtAuthMiddleware, authManager } = await setupJwtAuth();
 
   // Register authManager in DI container for controller injection
-  container.register("AuthManager", { useFactory: () => authManager });
+  container.register("AuthManager", { useValue: authManager });
 
   const { app, start, logger } = await createBootify()
     // Configuration
@@ -0,0 +1,93 @@
+import type { TokenStorage } from '../auth/types'
+import type { ICacheStore } from '../cache/cache.types'
+import type { BufferedEventBusService } from '../events/buffered-event-bus.service'
+import type { SchedulerService } from '../scheduling/scheduler.service'
+import { HealthIndicator, HealthIndicatorResult, HealthProbe } from './health.types'
+
+/**
+ * Checks a cache store with a write, read and delete round trip.
+ */
+export class CacheStoreHealthIndicator implements HealthIndicator {
+  readonly probes: HealthProbe[] = ['readiness']
+
+  constructor(private readonly store: ICacheStore, readonly name: string = 'cache') {}
+
+  async check(): Promise<HealthIndicatorResult> {
+    const key = `health_check_${process.pid}_${Date.now()}`
+    await this.store.set(key, 'ok', 10)
+    const value = await this.store.get<string>(key)
+    await this.store.del(key)
+    return value === 'ok'
+      ? { status: 'up', details: { store: this.store.constructor.name } }
+      : { status: 'down', details: { store: this.store.constructor.name, reason: 'Read back a different value' } }
+  }
+}
+
+/**
+ * Checks a token storage with a `healthCheck()` method, such as `RedisTokenStorage`.
+ */
+export class TokenStorageHealthIndicator implements HealthIndicator {
+  readonly probes: HealthProbe[] = ['readiness']
+
+  constructor(
+    private readonly storage: TokenStorage & {
+      healthCheck(): Promise<{ status: 'healthy' | 'unhealthy'; details?: string }>
+    },
+    readonly name: string = 'tokenStorage'
+  ) {}
+
+  async check(): Promise<HealthIndicatorResult> {
+    const { status, details } = await this.storage.healthCheck()
+    return { status: status === 'healthy' ? 'up' : 'down', ...(details && { details: { reason: details } }) }
+  }
+}
+
+/**
+ * Checks the buffered event bus: down when it is not running or its health monitor
+ * reports a critical state. Warnings are reported in the details.
+ */
+export class BufferedEventBusHealthIndicator implements HealthIndicator {
+  readonly probes: HealthProbe[] = ['readiness']
+
+  constructor(
+    private readonly eventBus: BufferedEventBusService,
+    readonly name: string = 'eventBus'
+  ) {}
+
+  async check(): Promise<HealthIndicatorResult> {
+    if (!this.eventBus.isReady()) {
+      return { status: 'down', details: { reason: 'Event bus is not running' } }
+    }
+    const health = await this.eventBus.getHealthStatus()
+    const failing = (health.checks || [])
+      .filter((check: { status: string }) => check.status !== 'pass')
+      .map(({ name, status, message }: { name: string; status: string; message: string }) => ({ name, status, message }))
+    return {
+      status: health.status === 'critical' ? 'down' : 'up',
+      details: { state: health.status, score: health.overallScore, ...(failing.length > 0 && { failing }) },
+    }
+  }
+}
+
+/**
+ * Checks that the scheduler is running, and reports jobs whose last run failed.
+ * Failing jobs don't make the app unhealthy.
+ */
+export class SchedulerHealthIndicator implements HealthIndicator {
+  readonly probes: HealthProbe[] = ['readiness']
+
+  constructor(private readonly scheduler: SchedulerService, readonly name: string = 'scheduler') {}
+
+  check(): HealthIndicatorResult {
+    const stats = this.scheduler.getStats()
+    const failingJobs = stats.jobs.filter((job) => job.status === 'error').map((job) => job.name)
+    return {
+      status: this.scheduler.isRunning() ? 'up' : 'down',
+      details: {
+        totalJobs: stats.totalJobs,
+        runningJobs: stats.runningJobs,
+        ...(failingJobs.length > 0 && { failingJobs }),
+      },
+    }
+  }
+}
@@ -0,0 +1,39 @@
+import { FastifyInstance } from 'fastify'
+import { normalizePrefix } from '../core/router'
+import { HealthService } from './health.service'
+import { HealthCheckOptions, HealthProbe, HealthReport } from './health.types'
+
+const withoutDetails = (report: HealthReport): HealthReport => ({
+  ...report,
+  checks: Object.fromEntries(
+    Object.entries(report.checks).map(([name, { status, durationMs }]) => [name, { status, durationMs }])
+  ),
+})
+
+/**
+ * Serves the health report at `path` (every check), `path/live` (liveness checks)
+ * and `path/ready` (readiness checks). Reports are sent with a 200 when up and a 503
+ * when down, which is what Kubernetes probes and load balancers look at.
+ */
+export function registerHealthRoutes(
+  app: FastifyInstance,
+  health: HealthService,
+  options: HealthCheckOptions = {}
+): void {
+  const basePath = normalizePrefix(options.path || '/health')
+  const endpoints: [string, HealthProbe | undefined][] = [
+    [basePath, undefined],
+    [`${basePath}/live`, 'liveness'],
+    [`${basePath}/ready`, 'readiness'],
+  ]
+
+  for (const [url, probe] of endpoints) {
+    app.get(url, async (_request, reply) => {
+      const report = await health.check(probe, options.timeout)
+      reply
+        .status(report.status === 'up' ? 200 : 503)
+        .header('Cache-Control', 'no-store')
+      return options.showDetails === false ? withoutDetails(report) : report
+    })
+  }
+}
@@ -0,0 +1,93 @@
+import { Autowired, Service } from '../core/decorators'
+import {
+  HEALTH_INDICATOR,
+  HealthCheckResult,
+  HealthIndicator,
+  HealthProbe,
+  HealthReport,
+} from './health.types'
+
+export const DEFAULT_HEALTH_CHECK_TIMEOUT = 3000
+
+/**
+ * Runs the health indicators and tracks whether the app accepts traffic. The app is
+ * not ready until it has started, so readiness fails while it boots.
+ */
+@Service()
+export class HealthService {
+  private readonly indicators: HealthIndicator[] = []
+  private notReadyReason: string | undefined = 'Application is starting'
+
+  constructor(
+    @Autowired(HEALTH_INDICATOR, { multi: true, optional: true }) indicators: HealthIndicator[]
+  ) {
+    this.indicators.push(...indicators)
+  }
+
+  addIndicator(...indicators: HealthIndicator[]): void {
+    this.indicators.push(...indicators)
+  }
+
+  getIndicators(probe?: HealthProbe): HealthIndicator[] {
+    if (!probe) return [...this.indicators]
+    return this.indicators.filter((indicator) => (indicator.probes || ['readiness']).includes(probe))
+  }
+
+  /**
+   * Marks the app as ready or not. A reason fails the readiness probe whatever the
+   * indicators report.
+   */
+  setReady(ready: true): void
+  setReady(ready: false, reason: string): void
+  setReady(ready: boolean, reason?: string): void {
+    this.notReadyReason = ready ? undefined : reason
+  }
+
+  isReady(): boolean {
+    return this.notReadyReason === undefined
+  }
+
+  /**
+   * Runs the indicators of a probe, or all of them, concurrently. The report is
+   * `up` when every check is; readiness is also `down` while the app is not ready.
+   */
+  async check(
+    probe?: HealthProbe,
+    timeout: number = DEFAULT_HEALTH_CHECK_TIMEOUT
+  ): Promise<HealthReport> {
+    const indicators = this.getIndicators(probe)
+    const results = await Promise.all(
+      indicators.map((indicator) => runCheck(indicator, indicator.timeout ?? timeout))
+    )
+
+    const checks: Record<string, HealthCheckResult> = {}
+    indicators.forEach((indicator, index) => {
+      checks[indicator.name] = results[index]
+    })
+    const reason = probe === 'liveness' ? undefined : this.notReadyReason
+    const isUp = !reason && results.every((result) => result.status === 'up')
+    return { status: isUp ? 'up' : 'down', ...(reason && { reason }), checks }
+  }
+}
+
+async function runCheck(indicator: HealthIndicator, timeout: number): Promise<HealthCheckResult> {
+  const startedAt = Date.now()
+  let timer: NodeJS.Timeout | undefined
+  try {
+    const result = await Promise.race([
+      Promise.resolve().then(() => indicator.check()),
+      new Promise<never>((_resolve, reject) => {
+        timer = setTimeout(() => reject(new Error(`Timed out after ${timeout}ms`)), timeout)
+      }),
+    ])
+    return { ...result, durationMs: Date.now() - startedAt }
+  } catch (error) {
+    return {
+      status: 'down',
+      error: error instanceof Error ? error.message : String(error),
+      durationMs: Date.now() - startedAt,
+    }
+  } finally {
+    clearTimeout(timer)
+  }
+}
@@ -0,0 +1,66 @@
+/**
+ * DI token of health indicators. Bind indicators to it with `multi: true` so the
+ * health endpoints run them.
+ *
+ * @example
+ * @Service({ bindTo: [HEALTH_INDICATOR], multi: true })
+ * export class DatabaseHealthIndicator implements HealthIndicator {
+ *   readonly name = 'database'
+ *   constructor(private readonly pool: DbPool) {}
+ *
+ *   async check(): Promise<HealthIndicatorResult> {
+ *     await this.pool.query('SELECT 1')
+ *     return { status: 'up' }
+ *   }
+ * }
+ */
+export const HEALTH_INDICATOR = Symbol.for('HealthIndicator')
+
+export type HealthStatus = 'up' | 'down'
+
+/**
+ * The Kubernetes probes. A failing liveness check gets the process restarted, so
+ * only checks that a restart can fix belong to it; a failing readiness check takes
+ * the instance out of load balancing until it passes again.
+ */
+export type HealthProbe = 'liveness' | 'readiness'
+
+export interface HealthIndicatorResult {
+  status: HealthStatus
+  details?: Record<string, unknown>
+}
+
+export interface HealthIndicator {
+  /** Name of the check in health reports. */
+  readonly name: string
+  /** Probes running the check. Defaults to readiness only. */
+  readonly probes?: HealthProbe[]
+  /** Time the check may take before it counts as down, in milliseconds. */
+  readonly timeout?: number
+  /** Throwing is the same as returning `down`, with the error message. */
+  check(): Promise<HealthIndicatorResult> | HealthIndicatorResult
+}
+
+export interface HealthCheckResult extends HealthIndicatorResult {
+  /** Why the check failed, when it threw or timed out. */
+  error?: string
+  durationMs: number
+}
+
+export interface HealthReport {
+  status: HealthStatus
+  /** Set when the app itself is not ready: starting up or shutting down. */
+  reason?: string
+  checks: Record<string, HealthCheckResult>
+}
+
+export interface HealthCheckOptions {
+  /** Base path of the endpoints: `${path}`, `${path}/live` and `${path}/ready`. Defaults to `/health`. */
+  path?: string
+  /** Default timeout of each check, in milliseconds. Defaults to 3000. */
+  timeout?: number
+  /** Indicators added to those bound to `HEALTH_INDICATOR`. */
+  indicators?: HealthIndicator[]
+  /** Include check details and errors in responses. Defaults to true. */
+  showDetails?: boolean
+}
@@ -0,0 +1,4 @@
+export * from './health.types'
+export * from './health.service'
+export * from './health-indicators'
+export * from './health.routes'
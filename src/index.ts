@@ -5,7 +5,11 @@ export * from './config'
 export * from './constants'
 export * from './core'
 export * from './events'
+export * from './health'
 export * from './logging'
 export * from './middleware'
+export * from './openapi'
 export * from './scheduling'
+export * from './testing'
+export * from './websocket'
 
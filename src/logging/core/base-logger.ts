@@ -16,7 +16,7 @@ import {
 } from './interfaces'
 import { ConsoleTransport } from './transports/console.transport'
 
-const LOG_LEVELS: Record<LogLevel, number> = {
+export const LOG_LEVELS: Record<LogLevel, number> = {
     trace: 10,
     debug: 20,
     info: 30,
@@ -30,6 +30,10 @@ export interface ILogger {
     error(message: string, error?: Error, context?: LogContext): void
     fatal(message: string, error?: Error, context?: LogContext): void
     child(bindings: LogContext): ILogger
+    /** Write out buffered entries, called during graceful shutdown. */
+    flush?(): Promise<void>
+    /** Release transports, called last during graceful shutdown. */
+    close?(): Promise<void>
 }
 
 /**
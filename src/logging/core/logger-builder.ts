@@ -160,8 +160,8 @@ export class LoggerBuilder {
     }
 
     private registerLogger(logger: ILogger): void {
-        container.register(LOGGER_TOKEN, { useFactory: () => logger })
-        container.register(BaseLogger, { useFactory: () => logger })
+        container.register(LOGGER_TOKEN, { useValue: logger })
+        container.register(BaseLogger, { useValue: logger })
         loggerInitialized = true
     }
 }
@@ -26,8 +26,6 @@ export const LOGGER_TOKEN = Symbol.for("Logger");
 export const loggerFactory = (): pino.Logger => {
   const appConfig = AppConfig.getInstance();
 
-  console.log(appConfig.get("LOG_LEVEL"));
-
   const pinoOptions: pino.LoggerOptions = {
     level: appConfig.get("LOG_LEVEL"),
     messageKey: "message",
@@ -105,8 +103,6 @@ export const loggerFactory = (): pino.Logger => {
       },
     });
   }
-  console.log("targets", transportTargets);
-
   return pino({ ...pinoOptions, transport: { targets: transportTargets } });
 };
 
@@ -1,6 +1,8 @@
 import * as os from 'os'
 import { DEFAULT_SERVER_PORT } from '../../constants'
 import { Autowired, Service } from '../../core'
+import { LOG_LEVELS } from './base-logger'
+import { LogLevel } from './interfaces'
 import { Logger } from './logger'
 
 // ANSI color codes
@@ -27,6 +29,9 @@ export class StreamingStartupLogger {
     private currentComponent: ComponentInfo | null = null
     private showColors: boolean
     private indent = '  '
+    // The startup output is info-level, so LOG_LEVEL=warn and above leave it out
+    private readonly enabled =
+        (LOG_LEVELS[process.env.LOG_LEVEL as LogLevel] ?? LOG_LEVELS.info) <= LOG_LEVELS.info
 
     @Autowired(Logger)
     private readonly logger!: Logger
@@ -52,20 +57,20 @@ export class StreamingStartupLogger {
 
  ${this.colorize(':: BootifyJS Framework ::', colors.bright)}        ${this.colorize(`(v${version})`, colors.cyan)}
 `
-        console.log(banner)
+        this.print(banner)
 
         // Log startup info
         const timestamp = new Date().toISOString()
-        console.log(`${this.colorize('Starting BootifyJS Application', colors.bright)} ${this.colorize(`on ${os.hostname()}`, colors.dim)}`)
-        console.log(`${this.colorize('Started by', colors.dim)} ${os.userInfo().username} ${this.colorize('in', colors.dim)} ${process.cwd()}`)
-        console.log(`${this.colorize('The following profiles are active:', colors.dim)} ${this.colorize(process.env.NODE_ENV || 'development', colors.cyan)}`)
-        console.log('')
+        this.print(`${this.colorize('Starting BootifyJS Application', colors.bright)} ${this.colorize(`on ${os.hostname()}`, colors.dim)}`)
+        this.print(`${this.colorize('Started by', colors.dim)} ${os.userInfo().username} ${this.colorize('in', colors.dim)} ${process.cwd()}`)
+        this.print(`${this.colorize('The following profiles are active:', colors.dim)} ${this.colorize(process.env.NODE_ENV || 'development', colors.cyan)}`)
+        this.print('')
     }
 
     public logPhaseStart(phase: string): void {
-        console.log(`${this.colorize('═'.repeat(60), colors.gray)}`)
-        console.log(`${this.colorize(`▶ ${phase}`, colors.bright + colors.cyan)}`)
-        console.log(`${this.colorize('─'.repeat(60), colors.gray)}`)
+        this.print(`${this.colorize('═'.repeat(60), colors.gray)}`)
+        this.print(`${this.colorize(`▶ ${phase}`, colors.bright + colors.cyan)}`)
+        this.print(`${this.colorize('─'.repeat(60), colors.gray)}`)
     }
 
     public logComponentStart(component: string, details?: string): void {
@@ -75,7 +80,7 @@ export class StreamingStartupLogger {
         }
 
         const detailsStr = details ? this.colorize(` : ${details}`, colors.dim) : ''
-        process.stdout.write(`${this.indent}${component}${detailsStr} ... `)
+        this.write(`${this.indent}${component}${detailsStr} ... `)
     }
 
     public logComponentComplete(duration?: number): void {
@@ -84,7 +89,7 @@ export class StreamingStartupLogger {
         const actualDuration = duration || (Date.now() - this.currentComponent.startTime)
         const durationStr = this.colorize(`${actualDuration}ms`, colors.gray)
 
-        console.log(`${this.colorize('✓', colors.green)} ${durationStr}`)
+        this.print(`${this.colorize('✓', colors.green)} ${durationStr}`)
 
         this.logger.info(`${this.currentComponent.name} initialized`, {
             component: this.currentComponent.name,
@@ -97,8 +102,8 @@ export class StreamingStartupLogger {
     public logComponentFailed(error: Error): void {
         if (!this.currentComponent) return
 
-        console.log(`${this.colorize('✗', colors.yellow)}`)
-        console.log(`${this.indent}${this.colorize('└─ Error:', colors.yellow)} ${error.message}`)
+        this.print(`${this.colorize('✗', colors.yellow)}`)
+        this.print(`${this.indent}${this.colorize('└─ Error:', colors.yellow)} ${error.message}`)
 
         this.logger.error(`${this.currentComponent.name} failed`, error)
 
@@ -107,17 +112,17 @@ export class StreamingStartupLogger {
 
     public logInfo(message: string, value?: string): void {
         const valueStr = value ? this.colorize(value, colors.cyan) : ''
-        console.log(`${this.indent}${this.colorize('•', colors.blue)} ${message} ${valueStr}`)
+        this.print(`${this.indent}${this.colorize('•', colors.blue)} ${message} ${valueStr}`)
     }
 
     public logStartupComplete(): void {
         const totalDuration = Date.now() - this.startupStartTime
         const seconds = (totalDuration / 1000).toFixed(3)
 
-        console.log('')
-        console.log(`${this.colorize('═'.repeat(60), colors.gray)}`)
-        console.log(`${this.colorize('✓ Application Startup Complete', colors.bright + colors.green)}`)
-        console.log(`${this.colorize('─'.repeat(60), colors.gray)}`)
+        this.print('')
+        this.print(`${this.colorize('═'.repeat(60), colors.gray)}`)
+        this.print(`${this.colorize('✓ Application Startup Complete', colors.bright + colors.green)}`)
+        this.print(`${this.colorize('─'.repeat(60), colors.gray)}`)
     }
 
     public logStartupSummary(port?: number, host?: string): void {
@@ -127,29 +132,37 @@ export class StreamingStartupLogger {
         const actualHost = host || 'localhost'
 
         // Startup complete message
-        console.log(`${this.colorize('Started BootifyJS Application in', colors.dim)} ${this.colorize(seconds, colors.bright)} ${this.colorize('seconds', colors.dim)}`)
-        console.log('')
+        this.print(`${this.colorize('Started BootifyJS Application in', colors.dim)} ${this.colorize(seconds, colors.bright)} ${this.colorize('seconds', colors.dim)}`)
+        this.print('')
 
         // Server info
-        console.log(`${this.colorize('Server:', colors.dim)}`)
-        console.log(`${this.indent}${this.colorize('•', colors.blue)} HTTP: ${this.colorize(`http://${actualHost}:${actualPort}`, colors.bright + colors.cyan)}`)
-        console.log(`${this.indent}${this.colorize('•', colors.blue)} Docs: ${this.colorize(`http://${actualHost}:${actualPort}/api-docs`, colors.cyan)}`)
-        console.log('')
+        this.print(`${this.colorize('Server:', colors.dim)}`)
+        this.print(`${this.indent}${this.colorize('•', colors.blue)} HTTP: ${this.colorize(`http://${actualHost}:${actualPort}`, colors.bright + colors.cyan)}`)
+        this.print(`${this.indent}${this.colorize('•', colors.blue)} Docs: ${this.colorize(`http://${actualHost}:${actualPort}/api-docs`, colors.cyan)}`)
+        this.print('')
 
         // System info
         const memUsage = process.memoryUsage()
-        console.log(`${this.colorize('System:', colors.dim)}`)
-        console.log(`${this.indent}${this.colorize('•', colors.blue)} Node.js: ${this.colorize(process.version, colors.cyan)}`)
-        console.log(`${this.indent}${this.colorize('•', colors.blue)} Memory: ${this.colorize(this.formatMemory(memUsage.heapUsed), colors.cyan)} / ${this.formatMemory(memUsage.heapTotal)}`)
-        console.log(`${this.indent}${this.colorize('•', colors.blue)} CPUs: ${this.colorize(String(os.cpus().length), colors.cyan)}`)
-        console.log('')
-
-        console.log(`${this.colorize('═'.repeat(60), colors.gray)}`)
-        console.log('')
+        this.print(`${this.colorize('System:', colors.dim)}`)
+        this.print(`${this.indent}${this.colorize('•', colors.blue)} Node.js: ${this.colorize(process.version, colors.cyan)}`)
+        this.print(`${this.indent}${this.colorize('•', colors.blue)} Memory: ${this.colorize(this.formatMemory(memUsage.heapUsed), colors.cyan)} / ${this.formatMemory(memUsage.heapTotal)}`)
+        this.print(`${this.indent}${this.colorize('•', colors.blue)} CPUs: ${this.colorize(String(os.cpus().length), colors.cyan)}`)
+        this.print('')
+
+        this.print(`${this.colorize('═'.repeat(60), colors.gray)}`)
+        this.print('')
     }
 
     // ============ Private Methods ============
 
+    private print(line: string): void {
+        if (this.enabled) console.log(line)
+    }
+
+    private write(text: string): void {
+        if (this.enabled) process.stdout.write(text)
+    }
+
     private shouldShowColors(): boolean {
         if (process.env.CI || process.env.NO_COLOR) {
             return false
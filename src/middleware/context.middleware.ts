@@ -1,5 +1,6 @@
 import { randomUUID } from 'crypto'
 import { FastifyReply, FastifyRequest, HookHandlerDoneFunction } from 'fastify'
+import { disposeRequestScope } from '../core/di-container'
 import { RequestContextService } from '../core/request-context.service'
 
 /**
@@ -17,6 +18,10 @@ const defaultContextExtractor: ContextExtractor = (req: FastifyRequest, res: Fas
   }
 }
 
+// The context store of each request, so that a middleware registered after the
+// app's own adds its values to the request's context instead of opening another one
+const requestStores = new WeakMap<FastifyRequest, Map<string, any>>()
+
 /**
  * Creates a context middleware with optional user-defined context extraction
  * @param contextExtractor Optional function to extract additional context from request
@@ -25,6 +30,14 @@ export const createContextMiddleware = (contextExtractor?: ContextExtractor) =>
   const extractor = contextExtractor || defaultContextExtractor
 
   return (req: FastifyRequest, res: FastifyReply, done: HookHandlerDoneFunction) => {
+    const existingStore = requestStores.get(req)
+    if (existingStore) {
+      Object.entries(extractor(req, res)).forEach(([key, value]) => {
+        existingStore.set(key, value)
+      })
+      return done()
+    }
+
     // Run the rest of the request lifecycle within a new context
     RequestContextService.run(() => {
       const requestId = randomUUID()
@@ -36,8 +49,6 @@ export const createContextMiddleware = (contextExtractor?: ContextExtractor) =>
       // Extract user-defined context
       const userContext = extractor(req, res)
 
-      console.log('createContextMiddleware', userContext)
-
       // Set user-defined context values
       Object.entries(userContext).forEach(([key, value]) => {
         contextService.set(key, value)
@@ -49,6 +60,15 @@ export const createContextMiddleware = (contextExtractor?: ContextExtractor) =>
       // Attach headers
       res.header('X-Request-Id', requestId)
 
+      // Dispose request-scoped DI instances once the response is finished
+      const store = contextService.store()
+      if (store) {
+        requestStores.set(req, store)
+        res.raw.once('close', () => {
+          void disposeRequestScope(store)
+        })
+      }
+
       done()
     })
   }
@@ -0,0 +1,14 @@
+/**
+ * BootifyJS OpenAPI Module
+ *
+ * Generates an OpenAPI 3.1 document from controller metadata and serves it with Swagger UI.
+ *
+ * @example
+ * createBootify()
+ *   .useControllers([OrderController])
+ *   .enableOpenApi({ info: { title: 'Orders', version: '2.0.0' }, path: '/docs' })
+ */
+
+export * from './openapi-ui'
+export * from './openapi.generator'
+export * from './openapi.types'
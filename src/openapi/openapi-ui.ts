@@ -0,0 +1,99 @@
+import { FastifyInstance } from 'fastify'
+import { createReadStream } from 'fs'
+import { dirname, join } from 'path'
+import { joinPaths } from '../core/router'
+import { OpenApiDocument, OpenApiServeOptions } from './openapi.types'
+
+export const DEFAULT_OPENAPI_PATH = '/docs'
+
+// The Swagger UI files the page loads, from the swagger-ui-dist package
+const UI_ASSETS: Record<string, string> = {
+  'swagger-ui.css': 'text/css; charset=utf-8',
+  'swagger-ui-bundle.js': 'application/javascript; charset=utf-8',
+}
+
+/**
+ * Serves the document at `${path}/openapi.json` and a Swagger UI page for it at `path`.
+ * Given documents by name, such as `{ v1, v2 }`, each is served at
+ * `${path}/${name}/openapi.json` and the UI lets users switch between them.
+ * The UI's script and styles are served at `${path}/static/`, unless `uiAssetsUrl`
+ * points elsewhere.
+ */
+export function registerOpenApiRoutes(
+  app: FastifyInstance,
+  documents: OpenApiDocument | Record<string, OpenApiDocument>,
+  options: Pick<OpenApiServeOptions, 'path' | 'uiAssetsUrl'> = {}
+) {
+  const uiPath = joinPaths(options.path || DEFAULT_OPENAPI_PATH)
+  const specs = isOpenApiDocument(documents)
+    ? [{ name: documents.info.title, url: joinPaths(uiPath, 'openapi.json'), document: documents }]
+    : Object.entries(documents).map(([name, document]) => ({
+        name,
+        url: joinPaths(uiPath, name, 'openapi.json'),
+        document,
+      }))
+  if (specs.length === 0) return
+
+  const assetsPath = joinPaths(uiPath, 'static')
+  const html = renderSwaggerUi(
+    specs[0].document.info.title,
+    specs.map(({ name, url }) => ({ name, url })),
+    options.uiAssetsUrl || assetsPath
+  )
+
+  if (!options.uiAssetsUrl) {
+    const assetsDir = dirname(require.resolve('swagger-ui-dist/package.json'))
+    for (const [file, contentType] of Object.entries(UI_ASSETS)) {
+      app.get(joinPaths(assetsPath, file), async (_request, reply) =>
+        reply
+          .type(contentType)
+          .header('cache-control', 'public, max-age=86400')
+          .send(createReadStream(join(assetsDir, file)))
+      )
+    }
+  }
+
+  for (const { url, document } of specs) {
+    app.get(url, async () => document)
+  }
+  app.get(uiPath, async (_request, reply) => reply.type('text/html; charset=utf-8').send(html))
+}
+
+function isOpenApiDocument(value: object): value is OpenApiDocument {
+  return typeof (value as OpenApiDocument).openapi === 'string'
+}
+
+function renderSwaggerUi(
+  title: string,
+  specs: { name: string; url: string }[],
+  assetsUrl: string
+): string {
+  // With several documents, the last one (the latest version) is shown first
+  const source =
+    specs.length === 1
+      ? `url: ${JSON.stringify(specs[0].url)}`
+      : `urls: ${JSON.stringify(specs)}, 'urls.primaryName': ${JSON.stringify(
+          specs[specs.length - 1].name
+        )}`
+  return `<!DOCTYPE html>
+<html lang="en">
+<head>
+  <meta charset="utf-8" />
+  <meta name="viewport" content="width=device-width, initial-scale=1" />
+  <title>${escapeHtml(title)}</title>
+  <link rel="stylesheet" href="${assetsUrl}/swagger-ui.css" />
+</head>
+<body>
+  <div id="swagger-ui"></div>
+  <script src="${assetsUrl}/swagger-ui-bundle.js"></script>
+  <script>
+    window.ui = SwaggerUIBundle({ ${source}, dom_id: '#swagger-ui' })
+  </script>
+</body>
+</html>
+`
+}
+
+function escapeHtml(value: string): string {
+  return value.replace(/[&<>"']/g, (char) => `&#${char.charCodeAt(0)};`)
+}
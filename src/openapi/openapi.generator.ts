@@ -0,0 +1,511 @@
+import { promises as fs } from 'fs'
+import { STATUS_CODES } from 'http'
+import * as path from 'path'
+import { ZodSchema } from 'zod'
+import { zodToJsonSchema } from 'zod-to-json-schema'
+import { AuthStrategyType } from '../auth/types'
+import {
+  HttpMethod,
+  METADATA_KEYS,
+  RedirectOptions,
+  RouteMetadata,
+  SwaggerOptions,
+  ValidationDecoratorOptions,
+} from '../core/decorators'
+import { Constructor } from '../core/di-container'
+import { getUploadFields, UploadField } from '../core/multipart'
+import { joinPaths, mergeSwaggerMetadata } from '../core/router'
+import { getRouteVersions, getVersionSegment } from '../core/versioning'
+import {
+  JsonSchema,
+  OpenApiDocument,
+  OpenApiOperation,
+  OpenApiOptions,
+  OpenApiParameter,
+  OpenApiPathItem,
+  OpenApiResponse,
+  OpenApiSecurityScheme,
+} from './openapi.types'
+
+/**
+ * Controllers documented under a shared route prefix.
+ */
+export interface OpenApiControllerGroup {
+  controllers: Constructor[]
+  prefix?: string
+}
+
+const SCHEMA_PATH = 'components/schemas'
+const PROBLEM_SCHEMA_NAME = 'ProblemDetails'
+const COMPONENT_REF = /^#\/components\/schemas\/[^/]+$/
+// The methods a catch-all @All() route is documented under
+const ALL_METHOD_OPERATIONS: HttpMethod[] = ['GET', 'POST', 'PUT', 'PATCH', 'DELETE']
+
+const problemDetailsSchema: JsonSchema = {
+  type: 'object',
+  properties: {
+    type: { type: 'string' },
+    title: { type: 'string' },
+    status: { type: 'integer' },
+    detail: { type: 'string' },
+    instance: { type: 'string' },
+    requestId: { type: 'string' },
+  },
+  required: ['type', 'title', 'status'],
+}
+
+/**
+ * Builds an OpenAPI 3.1 document from controller metadata: routes, `@Schema`
+ * validation schemas, `@Swagger` documentation, `@HttpCode` and `@Redirect`.
+ *
+ * Zod schemas are converted once per instance. A schema used by several
+ * operations, or named in `options.schemas`, becomes a component that every
+ * operation references.
+ *
+ * With `versioning`, `generate(groups, version)` documents a single API version: its
+ * versioned routes and the unversioned ones.
+ *
+ * @example
+ * const document = new OpenApiGenerator({ info: { title: 'Orders', version: '2.0.0' } })
+ *   .generate([{ controllers: [OrderController], prefix: '/api' }])
+ */
+export class OpenApiGenerator {
+  private componentNames = new Map<ZodSchema<any>, string>()
+
+  constructor(private readonly options: OpenApiOptions = {}) {}
+
+  generate(groups: OpenApiControllerGroup[], version?: string): OpenApiDocument {
+    const routes = this.collectRoutes(groups, version)
+    this.nameComponents(routes)
+
+    const paths: Record<string, OpenApiPathItem> = {}
+    const operationIds = new Set<string>()
+    for (const route of routes) {
+      for (const method of route.methods) {
+        const operation = this.buildOperation(route, method, operationIds)
+        const pathItem = (paths[route.openApiPath] ??= {})
+        pathItem[method.toLowerCase() as keyof OpenApiPathItem] = operation
+      }
+    }
+
+    const tags = Array.from(
+      new Set(routes.flatMap((route) => route.swagger.tags || []))
+    ).map((name) => ({ name }))
+
+    return {
+      openapi: '3.1.0',
+      info: {
+        title: 'Bootify API',
+        ...this.options.info,
+        version: version ?? this.options.info?.version ?? '1.0.0',
+      },
+      ...(this.options.servers && { servers: this.options.servers }),
+      ...(tags.length > 0 && { tags }),
+      paths,
+      components: {
+        schemas: this.buildComponentSchemas(),
+        ...this.buildSecuritySchemes(),
+      },
+    }
+  }
+
+  /**
+   * The API versions of the controllers' routes, in ascending order. Empty without `versioning`.
+   */
+  getVersions(groups: OpenApiControllerGroup[]): string[] {
+    const { versioning } = this.options
+    if (!versioning) return []
+
+    const versions = new Set<string>()
+    for (const group of groups) {
+      for (const controllerClass of group.controllers) {
+        const controllerRoutes: RouteMetadata[] =
+          Reflect.getMetadata(METADATA_KEYS.routes, controllerClass) || []
+        for (const route of controllerRoutes) {
+          getRouteVersions(controllerClass, route.handlerName, versioning)?.forEach((v) =>
+            versions.add(v)
+          )
+        }
+      }
+    }
+    return Array.from(versions).sort((a, b) => a.localeCompare(b, undefined, { numeric: true }))
+  }
+
+  private collectRoutes(groups: OpenApiControllerGroup[], version?: string): DocumentedRoute[] {
+    const { versioning } = this.options
+    const routes: DocumentedRoute[] = []
+    for (const group of groups) {
+      for (const controllerClass of group.controllers) {
+        const prefix = Reflect.getMetadata(METADATA_KEYS.controllerPrefix, controllerClass) || ''
+        const controllerSwagger = Reflect.getMetadata(METADATA_KEYS.swaggerMetadata, controllerClass)
+        const controllerRoutes: RouteMetadata[] =
+          Reflect.getMetadata(METADATA_KEYS.routes, controllerClass) || []
+
+        for (const route of controllerRoutes) {
+          const read = (key: string) =>
+            Reflect.getMetadata(key, controllerClass.prototype, route.handlerName)
+          const swagger = mergeSwaggerMetadata(controllerSwagger, read(METADATA_KEYS.swaggerMetadata))
+
+          const routeVersions = versioning
+            ? getRouteVersions(controllerClass, route.handlerName, versioning)
+            : undefined
+          if (version !== undefined && routeVersions && !routeVersions.includes(version)) continue
+          const documentedVersions =
+            version !== undefined && routeVersions ? [version] : routeVersions || [undefined]
+
+          for (const routeVersion of documentedVersions) {
+            const versionSegment =
+              routeVersion !== undefined && versioning!.type === 'uri'
+                ? getVersionSegment(routeVersion, versioning!)
+                : ''
+            const url = joinPaths(group.prefix || '', versionSegment, prefix, route.path)
+            const isDeprecatedVersion =
+              routeVersion !== undefined && !!versioning!.deprecations?.[routeVersion]
+
+            routes.push({
+              controllerClass,
+              route,
+              version: routeVersion,
+              methods: route.method === 'ALL' ? ALL_METHOD_OPERATIONS : [route.method],
+              openApiPath: toOpenApiPath(url),
+              pathParams: getPathParams(url),
+              swagger: {
+                ...swagger,
+                tags: swagger.tags || [controllerClass.name.replace(/Controller$/, '')],
+                deprecated: swagger.deprecated || isDeprecatedVersion,
+              },
+              schemas: read(METADATA_KEYS.validationSchema) || {},
+              httpCode: read(METADATA_KEYS.httpCode),
+              redirect: read(METADATA_KEYS.redirect),
+              isEventStream: !!read(METADATA_KEYS.sse),
+              uploadFields: getUploadFields(read(METADATA_KEYS.paramTypes) || []),
+            })
+          }
+        }
+      }
+    }
+    return routes
+  }
+
+  /**
+   * Names the schemas that become components: those given in `options.schemas`, and
+   * body and response schemas shared by several operations, named after their first use.
+   */
+  private nameComponents(routes: DocumentedRoute[]) {
+    this.componentNames = new Map()
+    const takenNames = new Set<string>()
+    for (const [name, schema] of Object.entries(this.options.schemas || {})) {
+      this.componentNames.set(schema, name)
+      takenNames.add(name)
+    }
+
+    const uses = new Map<ZodSchema<any>, string[]>()
+    const addUse = (schema: ZodSchema<any> | undefined, name: string) => {
+      if (schema) uses.set(schema, [...(uses.get(schema) || []), name])
+    }
+    for (const { route, schemas } of routes) {
+      const baseName = capitalize(String(route.handlerName))
+      addUse(schemas.body, `${baseName}Body`)
+      for (const [statusCode, schema] of Object.entries(schemas.responses || {})) {
+        addUse(schema, `${baseName}Response${statusCode}`)
+      }
+    }
+
+    uses.forEach((names, schema) => {
+      if (names.length < 2 || this.componentNames.has(schema)) return
+      let name = names[0]
+      for (let suffix = 2; takenNames.has(name); suffix++) name = `${names[0]}${suffix}`
+      this.componentNames.set(schema, name)
+      takenNames.add(name)
+    })
+  }
+
+  private buildOperation(
+    documented: DocumentedRoute,
+    method: HttpMethod,
+    operationIds: Set<string>
+  ): OpenApiOperation {
+    const { controllerClass, route, swagger, schemas } = documented
+
+    let baseId = swagger.operationId || `${controllerClass.name}_${String(route.handlerName)}`
+    if (documented.methods.length > 1) baseId += `_${method.toLowerCase()}`
+    let operationId = baseId
+    for (let suffix = 2; operationIds.has(operationId); suffix++) operationId = `${baseId}_${suffix}`
+    operationIds.add(operationId)
+
+    const parameters = [
+      ...this.buildParameters(schemas.params, 'path', documented.pathParams),
+      ...this.buildParameters(schemas.query, 'query'),
+      ...this.buildVersionParameters(documented.version),
+    ]
+    const security = swagger.security || this.options.security
+
+    return {
+      operationId,
+      ...(swagger.summary && { summary: swagger.summary }),
+      ...(swagger.description && { description: swagger.description }),
+      tags: swagger.tags,
+      ...(swagger.deprecated && { deprecated: true }),
+      ...(security && { security }),
+      ...(parameters.length > 0 && { parameters }),
+      ...(documented.uploadFields.length > 0
+        ? { requestBody: this.buildMultipartBody(documented) }
+        : schemas.body && {
+            requestBody: {
+              required: !schemas.body.isOptional(),
+              content: {
+                'application/json': withExample(
+                  { schema: this.toJsonSchema(schemas.body) },
+                  swagger.examples?.body
+                ),
+              },
+            },
+          }),
+      responses: this.buildResponses(documented),
+    }
+  }
+
+  /**
+   * Documents an upload route as a multipart/form-data body: the body schema's fields,
+   * plus a binary property per file field. Files of unnamed `@UploadedFiles()` fields
+   * are documented as additional properties.
+   */
+  private buildMultipartBody({ schemas, uploadFields, swagger }: DocumentedRoute) {
+    const schema: JsonSchema = schemas.body
+      ? this.toJsonSchema(schemas.body, false)
+      : { type: 'object', properties: {} }
+    const properties: Record<string, JsonSchema> = { ...schema.properties }
+    const required: string[] = [...(schema.required || [])]
+    const encoding: Record<string, { contentType: string }> = {}
+
+    for (const field of uploadFields) {
+      const binary: JsonSchema = { type: 'string', format: 'binary' }
+      if (field.field === undefined) {
+        schema.additionalProperties = binary
+        continue
+      }
+      const fileSchema: JsonSchema = field.multiple ? { type: 'array', items: binary } : binary
+      properties[field.field] = fileSchema
+      if (field.required) required.push(field.field)
+      if (field.mimeTypes) encoding[field.field] = { contentType: field.mimeTypes.join(', ') }
+    }
+
+    return {
+      required: uploadFields.some((field) => field.required) || !!schemas.body,
+      content: {
+        'multipart/form-data': withExample(
+          {
+            schema: { ...schema, properties, ...(required.length > 0 && { required }) },
+            ...(Object.keys(encoding).length > 0 && { encoding }),
+          },
+          swagger.examples?.body
+        ),
+      },
+    }
+  }
+
+  /**
+   * Turns an object schema into one parameter per property. Path parameters without
+   * a schema are still listed, as strings.
+   */
+  private buildParameters(
+    schema: ZodSchema<any> | undefined,
+    location: 'path' | 'query',
+    pathParams: string[] = []
+  ): OpenApiParameter[] {
+    const jsonSchema = schema ? this.toJsonSchema(schema, false) : {}
+    const properties: Record<string, JsonSchema> = jsonSchema.properties || {}
+    const required: string[] = jsonSchema.required || []
+    const names = Array.from(new Set([...pathParams, ...Object.keys(properties)]))
+
+    return names.map((name) => {
+      const { description, ...propertySchema } = properties[name] || { type: 'string' }
+      return {
+        name,
+        in: location,
+        required: location === 'path' || required.includes(name),
+        ...(description && { description }),
+        schema: propertySchema,
+      }
+    })
+  }
+
+  /** The header selecting the version, under `header` versioning. */
+  private buildVersionParameters(version?: string): OpenApiParameter[] {
+    const { versioning } = this.options
+    if (version === undefined || versioning?.type !== 'header') return []
+    return [
+      {
+        name: versioning.header || 'X-API-Version',
+        in: 'header',
+        required: versioning.defaultVersion !== version,
+        schema: { type: 'string', enum: [version] },
+      },
+    ]
+  }
+
+  private buildResponses({ swagger, schemas, httpCode, redirect, isEventStream }: DocumentedRoute) {
+    const responses: Record<string, OpenApiResponse> = {}
+    const examples = swagger.examples?.responses || {}
+
+    if (isEventStream) {
+      responses[200] = {
+        description: 'Server-Sent Events stream',
+        content: { 'text/event-stream': { schema: { type: 'string' } } },
+      }
+    }
+
+    for (const [statusCode, schema] of Object.entries(schemas.responses || {})) {
+      responses[statusCode] = {
+        description: STATUS_CODES[statusCode] || 'Response',
+        content: {
+          'application/json': withExample(
+            { schema: this.toJsonSchema(schema) },
+            examples[Number(statusCode)]
+          ),
+        },
+      }
+    }
+
+    if (Object.keys(responses).length === 0) {
+      const statusCode = httpCode || redirect?.statusCode || 200
+      const example = examples[statusCode]
+      responses[statusCode] = {
+        description: STATUS_CODES[statusCode] || 'Response',
+        ...(example !== undefined && { content: { 'application/json': { example } } }),
+      }
+    }
+
+    responses.default = {
+      description: 'Error',
+      content: {
+        'application/problem+json': { schema: { $ref: `#/${SCHEMA_PATH}/${PROBLEM_SCHEMA_NAME}` } },
+      },
+    }
+    return responses
+  }
+
+  /**
+   * Converts a Zod schema, referencing the named components it contains. A component
+   * used as a whole becomes a plain `$ref` unless `allowRef` is false.
+   */
+  private toJsonSchema(schema: ZodSchema<any>, allowRef: boolean = true): JsonSchema {
+    const name = this.componentNames.get(schema)
+    if (name && allowRef) return { $ref: `#/${SCHEMA_PATH}/${name}` }
+
+    const definitions: Record<string, ZodSchema<any>> = {}
+    this.componentNames.forEach((componentName, component) => {
+      if (component !== schema) definitions[componentName] = component
+    })
+    const {
+      $schema,
+      [SCHEMA_PATH]: definitionSchemas = {},
+      ...jsonSchema
+    } = zodToJsonSchema(schema, { definitions, definitionPath: SCHEMA_PATH }) as JsonSchema
+    return inlineLocalRefs(jsonSchema, definitionSchemas)
+  }
+
+  private buildComponentSchemas(): Record<string, JsonSchema> {
+    const schemas: Record<string, JsonSchema> = { [PROBLEM_SCHEMA_NAME]: problemDetailsSchema }
+    this.componentNames.forEach((name, schema) => {
+      schemas[name] = this.toJsonSchema(schema, false)
+    })
+    return schemas
+  }
+
+  private buildSecuritySchemes() {
+    const securitySchemes: Record<string, OpenApiSecurityScheme> = {}
+    const authManager = this.options.authManager
+    for (const name of authManager?.getRegisteredStrategies() || []) {
+      const scheme = toSecurityScheme(authManager!.getStrategy(name)?.type)
+      if (scheme) securitySchemes[name] = scheme
+    }
+    Object.assign(securitySchemes, this.options.securitySchemes)
+    return Object.keys(securitySchemes).length > 0 ? { securitySchemes } : {}
+  }
+}
+
+interface DocumentedRoute {
+  controllerClass: Constructor
+  route: RouteMetadata
+  version?: string
+  methods: HttpMethod[]
+  openApiPath: string
+  pathParams: string[]
+  swagger: SwaggerOptions
+  schemas: ValidationDecoratorOptions
+  httpCode?: number
+  redirect?: RedirectOptions
+  isEventStream: boolean
+  uploadFields: UploadField[]
+}
+
+/**
+ * Writes a document as formatted JSON, creating the directory if needed.
+ */
+export async function writeOpenApiDocument(document: OpenApiDocument, filePath: string) {
+  await fs.mkdir(path.dirname(filePath), { recursive: true })
+  await fs.writeFile(filePath, JSON.stringify(document, null, 2) + '\n', 'utf8')
+}
+
+function toSecurityScheme(type?: AuthStrategyType): OpenApiSecurityScheme | undefined {
+  switch (type) {
+    case AuthStrategyType.JWT:
+      return { type: 'http', scheme: 'bearer', bearerFormat: 'JWT' }
+    case AuthStrategyType.API_KEY:
+      return { type: 'apiKey', in: 'header', name: 'x-api-key' }
+    default:
+      return undefined
+  }
+}
+
+/**
+ * zod-to-json-schema references a sub-schema it has already converted by its JSON
+ * pointer in the conversion output, which means nothing once the schema is embedded
+ * in the document. Those references are replaced by a copy of their target; references
+ * to whole components are kept, and recursive ones become `{}`.
+ */
+function inlineLocalRefs(root: JsonSchema, definitions: JsonSchema): JsonSchema {
+  const definitionsPrefix = `#/${SCHEMA_PATH}/`
+  const resolve = (ref: string) => {
+    const [base, pointer] = ref.startsWith(definitionsPrefix)
+      ? [definitions, ref.slice(definitionsPrefix.length)]
+      : [root, ref.slice(1)]
+    return pointer
+      .split('/')
+      .filter(Boolean)
+      .reduce((node: any, key) => node?.[key], base)
+  }
+
+  const visit = (node: any, resolving: string[]): any => {
+    if (Array.isArray(node)) return node.map((item) => visit(item, resolving))
+    if (!node || typeof node !== 'object') return node
+
+    const ref = node.$ref
+    if (typeof ref === 'string' && !COMPONENT_REF.test(ref)) {
+      if (resolving.includes(ref)) return {}
+      return visit(resolve(ref) ?? {}, [...resolving, ref])
+    }
+    return Object.fromEntries(
+      Object.entries(node).map(([key, value]) => [key, visit(value, resolving)])
+    )
+  }
+  return visit(root, [])
+}
+
+/** `/users/:id(^\\d+)/` becomes `/users/{id}`. */
+function toOpenApiPath(url: string): string {
+  return url.replace(/:(\w+)(\([^)]*\))?/g, '{$1}').replace(/(.)\/$/, '$1')
+}
+
+function getPathParams(url: string): string[] {
+  return Array.from(url.matchAll(/:(\w+)/g), (match) => match[1])
+}
+
+function withExample<T extends object>(mediaType: T, example: unknown): T {
+  return example === undefined ? mediaType : { ...mediaType, example }
+}
+
+function capitalize(value: string): string {
+  return value.charAt(0).toUpperCase() + value.slice(1)
+}
@@ -0,0 +1,105 @@
+import { ZodSchema } from 'zod'
+import type { AuthManager } from '../auth/AuthManager'
+import type { VersioningOptions } from '../core/versioning'
+
+/** A JSON Schema (2020-12 dialect, as used by OpenAPI 3.1). */
+export type JsonSchema = Record<string, any>
+
+export interface OpenApiInfo {
+  title: string
+  version: string
+  description?: string
+}
+
+export interface OpenApiServer {
+  url: string
+  description?: string
+}
+
+export type OpenApiSecurityScheme =
+  | { type: 'http'; scheme: string; bearerFormat?: string; description?: string }
+  | { type: 'apiKey'; in: 'header' | 'query' | 'cookie'; name: string; description?: string }
+  | { type: 'oauth2'; flows: Record<string, any>; description?: string }
+  | { type: 'openIdConnect'; openIdConnectUrl: string; description?: string }
+
+export type OpenApiSecurityRequirement = Record<string, string[]>
+
+export interface OpenApiParameter {
+  name: string
+  in: 'path' | 'query' | 'header' | 'cookie'
+  required: boolean
+  description?: string
+  schema: JsonSchema
+}
+
+export interface OpenApiMediaType {
+  schema?: JsonSchema
+  example?: unknown
+  encoding?: Record<string, { contentType?: string }>
+}
+
+export interface OpenApiResponse {
+  description: string
+  content?: Record<string, OpenApiMediaType>
+}
+
+export interface OpenApiOperation {
+  operationId: string
+  summary?: string
+  description?: string
+  tags?: string[]
+  deprecated?: boolean
+  security?: OpenApiSecurityRequirement[]
+  parameters?: OpenApiParameter[]
+  requestBody?: { required: boolean; content: Record<string, OpenApiMediaType> }
+  responses: Record<string, OpenApiResponse>
+}
+
+export type OpenApiPathItem = Partial<
+  Record<'get' | 'put' | 'post' | 'delete' | 'options' | 'head' | 'patch', OpenApiOperation>
+>
+
+export interface OpenApiDocument {
+  openapi: '3.1.0'
+  info: OpenApiInfo
+  servers?: OpenApiServer[]
+  tags?: { name: string }[]
+  security?: OpenApiSecurityRequirement[]
+  paths: Record<string, OpenApiPathItem>
+  components: {
+    schemas: Record<string, JsonSchema>
+    securitySchemes?: Record<string, OpenApiSecurityScheme>
+  }
+}
+
+export interface OpenApiOptions {
+  info?: Partial<OpenApiInfo>
+  servers?: OpenApiServer[]
+  /**
+   * Named Zod schemas. They are emitted under `components/schemas` and referenced
+   * wherever the same schema instance appears, including nested in other schemas.
+   */
+  schemas?: Record<string, ZodSchema<any>>
+  securitySchemes?: Record<string, OpenApiSecurityScheme>
+  /** Adds a security scheme for each strategy registered with this manager, keyed by strategy name. */
+  authManager?: AuthManager
+  /** Security requirements of operations that don't declare their own through `@Swagger`. */
+  security?: OpenApiSecurityRequirement[]
+  /** The app's versioning, so paths, version headers and deprecations match the routes. */
+  versioning?: VersioningOptions
+}
+
+export interface OpenApiServeOptions extends OpenApiOptions {
+  /**
+   * Route of the UI. The document is served at `${path}/openapi.json`, or with versioning
+   * enabled, one document per version at `${path}/v{version}/openapi.json`. Defaults to `/docs`.
+   */
+  path?: string
+  /** Writes the document to this file when the app is built, as `openapi.v2.json` per version. */
+  outputFile?: string
+  /**
+   * Where the Swagger UI page loads its script and styles from, such as a CDN. By default
+   * the app serves them from the `swagger-ui-dist` package, at `${path}/static`.
+   */
+  uiAssetsUrl?: string
+}
@@ -160,6 +160,13 @@ export class SchedulerService {
         this.logger.info('Job disabled', { jobName })
     }
 
+    /**
+     * Whether the scheduler has started and not been stopped
+     */
+    isRunning(): boolean {
+        return this.isStarted
+    }
+
     /**
      * Get status of all jobs
      */
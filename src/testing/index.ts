@@ -0,0 +1,16 @@
+/**
+ * BootifyJS Testing Module
+ *
+ * Builds isolated test applications with overridable providers.
+ *
+ * @example
+ * import { Test } from 'bootifyjs/testing'
+ *
+ * const moduleRef = await Test.createModule({ controllers: [UserController] })
+ *   .overrideProvider(UserRepository).useValue(fakeRepository)
+ *   .compile()
+ *
+ * await moduleRef.app.inject({ method: 'GET', url: '/users' })
+ */
+
+export * from './testing-module'
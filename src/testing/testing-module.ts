@@ -0,0 +1,113 @@
+import { FastifyInstance } from 'fastify'
+import { BootifyApp, createBootify } from '../BootifyApp'
+import { Constructor, Container, container, DiToken, RegistrationOptions } from '../core/di-container'
+import { Module, ModuleOptions } from '../core/module'
+
+export type TestingModuleMetadata = Omit<ModuleOptions, 'exports'>
+
+/**
+ * A built test application. `app` is a ready Fastify instance for `app.inject()`;
+ * no port is bound.
+ */
+export class TestingModule {
+  constructor(
+    public readonly app: FastifyInstance,
+    private readonly containers: Container[]
+  ) {}
+
+  /** The isolated container the test app was built with. */
+  get container(): Container {
+    return this.containers[0]
+  }
+
+  /**
+   * Resolves a provider, including the providers declared for the testing module.
+   */
+  get<T>(token: DiToken, qualifier?: string): T {
+    const owner = [...this.containers]
+      .reverse()
+      .find((diContainer) => diContainer.isRegisteredLocally(token, qualifier))
+    return (owner || this.container).resolve<T>(token, qualifier)
+  }
+
+  /**
+   * Closes the Fastify instance and runs the OnShutdown hooks in reverse order.
+   */
+  async close(): Promise<void> {
+    await this.app.close()
+    const errors: Error[] = []
+    for (const diContainer of [...this.containers].reverse()) {
+      errors.push(
+        ...(await diContainer.callLifecycleHook('onShutdown', { reverse: true, continueOnError: true }))
+      )
+    }
+    if (errors.length > 0) {
+      throw errors[0]
+    }
+  }
+}
+
+/**
+ * Builds a test application on `BootifyApp` in a fork of the global container,
+ * so registrations and overrides never leak into other tests.
+ *
+ * @example
+ * const moduleRef = await Test.createModule({ controllers: [UserController] })
+ *   .overrideProvider(UserRepository).useValue(fakeRepository)
+ *   .compile()
+ *
+ * const response = await moduleRef.app.inject({ method: 'GET', url: '/users' })
+ * await moduleRef.close()
+ */
+export class TestingModuleBuilder {
+  private readonly overrides = new Map<DiToken, RegistrationOptions>()
+  private readonly configureFns: ((app: BootifyApp) => void)[] = []
+
+  constructor(private readonly metadata: TestingModuleMetadata = {}) {}
+
+  overrideProvider(token: DiToken) {
+    const override = (registration: RegistrationOptions) => {
+      this.overrides.set(token, registration)
+      return this
+    }
+    return {
+      useValue: (value: any) => override({ useValue: value }),
+      useClass: (useClass: Constructor) => override({ useClass }),
+      useFactory: (useFactory: (...args: any[]) => any, inject?: DiToken[]) =>
+        override({ useFactory, inject }),
+    }
+  }
+
+  /**
+   * Customizes the underlying BootifyApp, e.g. to add plugins or middleware.
+   */
+  configure(configureFn: (app: BootifyApp) => void): this {
+    this.configureFns.push(configureFn)
+    return this
+  }
+
+  async compile(): Promise<TestingModule> {
+    class TestingRootModule {}
+    Module(this.metadata)(TestingRootModule)
+
+    const bootify = createBootify()
+      .useContainer(container.fork())
+      .useModule(TestingRootModule)
+      .useScheduler(false)
+      .useLogger((builder) => builder.setLevel('warn'))
+    this.overrides.forEach((registration, token) => bootify.overrideProvider(token, registration))
+    this.configureFns.forEach((configureFn) => configureFn(bootify))
+
+    const { app } = await bootify.build()
+    await app.ready()
+    return new TestingModule(app, bootify.getContainers())
+  }
+}
+
+export const Test = {
+  createModule: (metadata: TestingModuleMetadata = {}) => new TestingModuleBuilder(metadata),
+}
+
+export function createTestingApp(metadata: TestingModuleMetadata = {}): TestingModuleBuilder {
+  return new TestingModuleBuilder(metadata)
+}
@@ -0,0 +1,5 @@
+export * from './websocket.types'
+export * from './websocket.decorators'
+export * from './ws-client'
+export * from './websocket-hub.service'
+export * from './websocket-gateway'
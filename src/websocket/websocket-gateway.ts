@@ -0,0 +1,195 @@
+import type { WebSocket } from '@fastify/websocket'
+import { FastifyInstance, FastifyRequest } from 'fastify'
+import type { RawData } from 'ws'
+import type { AuthContext } from '../auth/types'
+import { Constructor, Container, disposeRequestScope } from '../core/di-container'
+import { RequestValidationError, UnauthorizedException } from '../core/errors'
+import { toHttpException } from '../core/exception-filters'
+import { loadOptionalPlugin } from '../core/optional-plugin'
+import { requestContextStore } from '../core/request-context.service'
+import { WebSocketHub } from './websocket-hub.service'
+import {
+  GatewayMetadata,
+  MessageHandlerMetadata,
+  WEBSOCKET_METADATA_KEYS,
+} from './websocket.decorators'
+import {
+  GatewayAuthOptions,
+  OnGatewayConnection,
+  OnGatewayDisconnect,
+  WebSocketOptions,
+  WsMessage,
+} from './websocket.types'
+import { WsClient } from './ws-client'
+
+export function getGatewayMetadata(gateway: Constructor): GatewayMetadata {
+  const metadata = Reflect.getMetadata(WEBSOCKET_METADATA_KEYS.gateway, gateway)
+  if (!metadata) {
+    throw new Error(`[WebSocket] '${gateway.name}' is not decorated with @WebSocketGateway().`)
+  }
+  return metadata
+}
+
+/** Registers `@fastify/websocket` when the app doesn't have it yet. */
+async function ensureWebSocketPlugin(app: FastifyInstance): Promise<void> {
+  if (app.hasDecorator('websocketServer')) return
+  const { default: websocket } = await loadOptionalPlugin(
+    '@fastify/websocket',
+    '[WebSocket] WebSocket gateways',
+    () => import('@fastify/websocket')
+  )
+  await app.register(websocket)
+}
+
+function extractToken(request: FastifyRequest): string | undefined {
+  const authorization = request.headers.authorization
+  if (authorization?.startsWith('Bearer ')) return authorization.substring(7)
+  const apiKey = request.headers['x-api-key']
+  if (typeof apiKey === 'string') return apiKey
+  const token = (request.query as Record<string, unknown> | undefined)?.token
+  return typeof token === 'string' ? token : undefined
+}
+
+function createAuthHook(options: GatewayAuthOptions, authManager: WebSocketOptions['authManager']) {
+  return async (request: FastifyRequest) => {
+    const token = extractToken(request)
+    if (!token) {
+      if (options.optional) return
+      throw new UnauthorizedException('Authentication token required')
+    }
+
+    const context: AuthContext = {
+      type: 'validate',
+      strategy: options.strategy || '',
+      request,
+      headers: request.headers as Record<string, string>,
+      query: request.query as Record<string, string>,
+    }
+    const result = await authManager!.validate(token, context, options.strategy)
+    if (!result.success || !result.user) {
+      throw new UnauthorizedException(result.error || 'Invalid authentication token')
+    }
+    ;(request as any).user = result.user
+    request.authenticated = true
+  }
+}
+
+/**
+ * Mounts gateways on the app. Each gateway path gets a WebSocket route whose
+ * connections are tracked by the `WebSocketHub`; messages are dispatched to the
+ * `@SubscribeMessage` handlers matching their `event`.
+ */
+export async function registerWebSocketGateways(
+  app: FastifyInstance,
+  gateways: Constructor[],
+  diContainer: Container,
+  options: WebSocketOptions = {}
+): Promise<void> {
+  if (gateways.length === 0) return
+  await ensureWebSocketPlugin(app)
+  const hub = diContainer.resolve<WebSocketHub>(WebSocketHub)
+
+  for (const gatewayClass of gateways) {
+    const metadata = getGatewayMetadata(gatewayClass)
+    const authOptions = metadata.auth === true ? {} : metadata.auth || undefined
+    if (authOptions && !options.authManager) {
+      throw new Error(
+        `[WebSocket] '${gatewayClass.name}' requires authentication, but no AuthManager was given to useWebSocketGateways().`
+      )
+    }
+
+    const gateway = diContainer.resolve<any>(gatewayClass)
+    const handlers = new Map<string, MessageHandlerMetadata>()
+    const handlerMetadata: MessageHandlerMetadata[] =
+      Reflect.getMetadata(WEBSOCKET_METADATA_KEYS.subscribeMessage, gatewayClass) || []
+    for (const handler of handlerMetadata) {
+      if (handlers.has(handler.event)) {
+        throw new Error(
+          `[WebSocket] '${gatewayClass.name}' has several handlers for the '${handler.event}' message.`
+        )
+      }
+      handlers.set(handler.event, handler)
+    }
+
+    app.route({
+      method: 'GET',
+      url: metadata.path,
+      websocket: true,
+      preValidation: authOptions ? createAuthHook(authOptions, options.authManager) : undefined,
+      handler: (socket: WebSocket, request: FastifyRequest) => {
+        const client = new WsClient(socket, request, metadata.path, hub)
+        const run = <T>(callback: () => T) => requestContextStore.run(client.context, callback)
+
+        const dispatch = async (raw: RawData) => {
+          let message: WsMessage
+          try {
+            message = JSON.parse(raw.toString())
+          } catch {
+            return client.send('error', { status: 400, title: 'Bad Request', detail: 'Invalid JSON message' })
+          }
+          if (!message || typeof message.event !== 'string') {
+            return client.send('error', { status: 400, title: 'Bad Request', detail: "Messages need an 'event'" })
+          }
+
+          const handler = handlers.get(message.event)
+          if (!handler) {
+            return client.send(
+              'error',
+              { status: 404, title: 'Not Found', detail: `Unknown event '${message.event}'` },
+              message.id
+            )
+          }
+
+          try {
+            let data = message.data
+            if (handler.schema) {
+              const parsed = handler.schema.safeParse(data)
+              if (!parsed.success) throw RequestValidationError.fromZodError(parsed.error)
+              data = parsed.data
+            }
+            const result = await gateway[handler.methodName](data, client)
+            if (result !== undefined) client.send(message.event, result, message.id)
+          } catch (error) {
+            const exception = toHttpException(error)
+            if (exception.statusCode >= 500) {
+              request.log.error({ err: error, event: message.event }, 'WebSocket handler failed')
+            }
+            const { type, instance, ...problem } = exception.toProblem()
+            client.send('error', problem, message.id)
+          }
+        }
+
+        // Messages can arrive before handleConnection settles, so they wait for it
+        let ready: Promise<unknown> = Promise.resolve()
+        hub.add(client)
+        socket.on('message', (raw) => {
+          ready = ready.then(() => run(() => dispatch(raw)))
+        })
+        socket.on('close', () => {
+          ready = ready.then(() =>
+            run(async () => {
+              try {
+                await (gateway as Partial<OnGatewayDisconnect>).handleDisconnect?.(client)
+              } catch (error) {
+                request.log.error({ err: error }, 'WebSocket disconnect handler failed')
+              } finally {
+                hub.remove(client)
+                await disposeRequestScope(client.context)
+              }
+            })
+          )
+        })
+        if ((gateway as Partial<OnGatewayConnection>).handleConnection) {
+          ready = run(async () => {
+            try {
+              await (gateway as OnGatewayConnection).handleConnection(client)
+            } catch (error) {
+              request.log.error({ err: error }, 'WebSocket connection handler failed')
+              client.close(1011, 'Internal error')
+            }
+          })
+        }
+      },
+    })
+  }
+}
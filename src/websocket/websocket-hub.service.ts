@@ -0,0 +1,117 @@
+import { Service } from '../core/decorators'
+import { EventBusService } from '../events/event-bus.service'
+import { IEvent } from '../events/event.types'
+import { WsClient } from './ws-client'
+
+export interface BroadcastOptions {
+  /** Only send to clients of the gateway mounted at this path. */
+  gateway?: string
+  /** Skip this client, usually the sender. */
+  except?: WsClient
+}
+
+export interface ForwardEventOptions {
+  /**
+   * Room receiving the event, or a function picking it from the event. Without a
+   * room (or when the function returns undefined), the event is broadcast.
+   */
+  room?: string | ((event: IEvent) => string | undefined)
+  /** Event name sent to clients. Defaults to the event type. */
+  as?: string
+  /** Data sent to clients. Defaults to the event payload. */
+  map?: (event: IEvent) => unknown
+  gateway?: string
+}
+
+/**
+ * Tracks the connected clients of every gateway and the rooms they joined, and sends
+ * messages to rooms or to everyone.
+ */
+@Service()
+export class WebSocketHub {
+  private readonly clients = new Set<WsClient>()
+  private readonly rooms = new Map<string, Set<WsClient>>()
+
+  constructor(private readonly eventBus: EventBusService) {}
+
+  /** Registers a connected client. Gateways call this when a connection opens. */
+  add(client: WsClient): void {
+    this.clients.add(client)
+  }
+
+  /** Forgets a client and removes it from its rooms. Gateways call this when a connection closes. */
+  remove(client: WsClient): void {
+    this.clients.delete(client)
+    for (const room of Array.from(client.rooms)) this.leave(client, room)
+  }
+
+  join(client: WsClient, room: string): void {
+    if (!this.rooms.has(room)) this.rooms.set(room, new Set())
+    this.rooms.get(room)!.add(client)
+    client.rooms.add(room)
+  }
+
+  leave(client: WsClient, room: string): void {
+    const members = this.rooms.get(room)
+    members?.delete(client)
+    if (members?.size === 0) this.rooms.delete(room)
+    client.rooms.delete(room)
+  }
+
+  /** The clients in a room, or every connected client. */
+  getClients(room?: string): WsClient[] {
+    return Array.from(room === undefined ? this.clients : this.rooms.get(room) || [])
+  }
+
+  /**
+   * Sends a message to the clients of a room.
+   * @returns The number of clients it was sent to.
+   */
+  emit(room: string, event: string, data?: unknown, options: BroadcastOptions = {}): number {
+    return this.sendTo(this.getClients(room), event, data, options)
+  }
+
+  /**
+   * Sends a message to every connected client.
+   * @returns The number of clients it was sent to.
+   */
+  broadcast(event: string, data?: unknown, options: BroadcastOptions = {}): number {
+    return this.sendTo(this.getClients(), event, data, options)
+  }
+
+  /**
+   * Sends the events of an event bus type to clients, as they are emitted.
+   * @returns A function that stops forwarding.
+   *
+   * @example
+   * hub.forwardEvents('order.shipped', {
+   *   room: (event) => `user:${event.payload.userId}`,
+   *   map: (event) => ({ orderId: event.payload.orderId }),
+   * })
+   */
+  forwardEvents(eventType: string, options: ForwardEventOptions = {}): () => void {
+    return this.eventBus.subscribe(eventType, {
+      handle: (event) => {
+        const room = typeof options.room === 'function' ? options.room(event) : options.room
+        const data = options.map ? options.map(event) : event.payload
+        const name = options.as || event.type
+        if (room !== undefined) {
+          this.emit(room, name, data, { gateway: options.gateway })
+        } else {
+          this.broadcast(name, data, { gateway: options.gateway })
+        }
+      },
+    })
+  }
+
+  private sendTo(clients: WsClient[], event: string, data: unknown, options: BroadcastOptions) {
+    let sent = 0
+    for (const client of clients) {
+      if (client === options.except || !client.isOpen) continue
+      if (options.gateway !== undefined && client.gateway !== options.gateway) continue
+      client.send(event, data)
+      sent++
+    }
+    return sent
+  }
+}
@@ -0,0 +1,65 @@
+import 'reflect-metadata'
+import { Component } from '../core/decorators'
+import { SubscribeMessageOptions, WebSocketGatewayOptions } from './websocket.types'
+
+export const WEBSOCKET_METADATA_KEYS = {
+  gateway: 'bootify:websocket-gateway',
+  subscribeMessage: 'bootify:subscribe-message',
+}
+
+export interface GatewayMetadata extends WebSocketGatewayOptions {
+  path: string
+}
+
+export interface MessageHandlerMetadata extends SubscribeMessageOptions {
+  event: string
+  methodName: string | symbol
+}
+
+/**
+ * Declares a WebSocket gateway mounted at `path`. Gateways are singletons resolved
+ * from the container, so they can inject services.
+ *
+ * @example
+ * @WebSocketGateway('/ws/chat', { auth: true })
+ * export class ChatGateway implements OnGatewayConnection {
+ *   constructor(private readonly hub: WebSocketHub) {}
+ *
+ *   handleConnection(client: WsClient) {
+ *     client.join(`user:${client.user?.id}`)
+ *   }
+ *
+ *   @SubscribeMessage('chat')
+ *   onChat(message: { room: string; text: string }, client: WsClient) {
+ *     this.hub.emit(message.room, 'chat', { from: client.user?.id, text: message.text })
+ *   }
+ * }
+ */
+export const WebSocketGateway = (
+  path: string = '/ws',
+  options: WebSocketGatewayOptions = {}
+): ClassDecorator => {
+  return (target: any) => {
+    Reflect.defineMetadata(WEBSOCKET_METADATA_KEYS.gateway, { ...options, path }, target)
+    Component()(target)
+  }
+}
+
+/**
+ * Handles the client messages of an event. The method receives the message data and
+ * the client; its return value is sent back to the client as the same event.
+ */
+export const SubscribeMessage = (
+  event: string,
+  options: SubscribeMessageOptions = {}
+): MethodDecorator => {
+  return (target: any, propertyKey: string | symbol) => {
+    const handlers: MessageHandlerMetadata[] =
+      Reflect.getMetadata(WEBSOCKET_METADATA_KEYS.subscribeMessage, target.constructor) || []
+    Reflect.defineMetadata(
+      WEBSOCKET_METADATA_KEYS.subscribeMessage,
+      [...handlers, { ...options, event, methodName: propertyKey }],
+      target.constructor
+    )
+  }
+}
@@ -0,0 +1,60 @@
+import { ZodSchema } from 'zod'
+import type { AuthManager } from '../auth/AuthManager'
+import type { WsClient } from './ws-client'
+
+/**
+ * The part of a `ws` WebSocket used by gateways, as given by `@fastify/websocket`.
+ */
+export interface WebSocketLike {
+  readonly readyState: number
+  send(data: string): void
+  close(code?: number, reason?: string): void
+  on(event: 'message', listener: (data: Buffer | string) => void): unknown
+  on(event: 'close', listener: () => void): unknown
+}
+
+/**
+ * The JSON frames exchanged with clients. A client message with an `id` gets the
+ * handler's result (or error) back with the same `id`.
+ */
+export interface WsMessage<T = unknown> {
+  event: string
+  data?: T
+  id?: string | number
+}
+
+export interface GatewayAuthOptions {
+  /** Strategy validating the token. Defaults to the one the AuthManager detects. */
+  strategy?: string
+  /** Accept anonymous connections, authenticating them only when they send a token. */
+  optional?: boolean
+}
+
+export interface WebSocketGatewayOptions {
+  /**
+   * Authenticate the handshake with `AuthManager.validate`. The token is read from the
+   * `Authorization: Bearer` or `x-api-key` header, or the `token` query parameter,
+   * since browsers can't set headers on WebSocket connections.
+   */
+  auth?: boolean | GatewayAuthOptions
+}
+
+export interface SubscribeMessageOptions {
+  /** Validates the message data; the handler receives the parsed value. */
+  schema?: ZodSchema<any>
+}
+
+export interface WebSocketOptions {
+  /** Validates the tokens of gateways with `auth`. */
+  authManager?: AuthManager
+}
+
+/** Called when a client connects, once the handshake is authenticated. */
+export interface OnGatewayConnection {
+  handleConnection(client: WsClient): Promise<void> | void
+}
+
+/** Called when a client's connection closes. */
+export interface OnGatewayDisconnect {
+  handleDisconnect(client: WsClient): Promise<void> | void
+}
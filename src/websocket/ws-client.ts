@@ -0,0 +1,62 @@
+import { randomUUID } from 'crypto'
+import { FastifyRequest } from 'fastify'
+import type { User } from '../auth/types'
+import type { WebSocketHub } from './websocket-hub.service'
+import { WebSocketLike, WsMessage } from './websocket.types'
+
+const OPEN = 1
+
+/**
+ * A connected client of a gateway.
+ */
+export class WsClient {
+  readonly id = randomUUID()
+  readonly rooms = new Set<string>()
+  /**
+   * The request context of the connection. Message handlers run in it, so logs of a
+   * connection share its `requestId`.
+   */
+  readonly context: Map<string, any>
+
+  constructor(
+    readonly socket: WebSocketLike,
+    readonly request: FastifyRequest,
+    readonly gateway: string,
+    private readonly hub: WebSocketHub
+  ) {
+    this.context = new Map<string, any>([
+      ['requestId', this.id],
+      ['connectionId', this.id],
+      ['gateway', gateway],
+    ])
+    if (this.user) this.context.set('user', this.user)
+  }
+
+  /** The user authenticated during the handshake, if any. */
+  get user(): User | undefined {
+    return ((this.request as any).user as User | null) ?? undefined
+  }
+
+  get isOpen(): boolean {
+    return this.socket.readyState === OPEN
+  }
+
+  send(event: string, data?: unknown, id?: WsMessage['id']): void {
+    if (!this.isOpen) return
+    const message: WsMessage = { event, data }
+    if (id !== undefined) message.id = id
+    this.socket.send(JSON.stringify(message))
+  }
+
+  join(room: string): void {
+    this.hub.join(this, room)
+  }
+
+  leave(room: string): void {
+    this.hub.leave(this, room)
+  }
+
+  close(code?: number, reason?: string): void {
+    this.socket.close(code, reason)
+  }
+}
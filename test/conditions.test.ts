@@ -0,0 +1,91 @@
+import './setup'
+import assert from 'node:assert/strict'
+import { describe, test } from 'node:test'
+import { z } from 'zod'
+import { AppConfig } from '../src/config/AppConfig'
+import {
+  Conditional,
+  ConditionalOnConfig,
+  ConditionalOnMissingBean,
+  Profile,
+} from '../src/core/conditions'
+import { Service } from '../src/core/decorators'
+import { container } from '../src/core/di-container'
+
+const MAILER = Symbol('Mailer')
+const STORE = Symbol('Store')
+const AUDIT_LOG = Symbol('AuditLog')
+
+@Service({ bindTo: [MAILER] })
+@Profile('production')
+class SmtpMailer {}
+
+@Service({ bindTo: [MAILER] })
+@Profile('!production')
+class ConsoleMailer {}
+
+@Service({ bindTo: [STORE] })
+@ConditionalOnConfig('STORE_DRIVER', 'redis')
+class RedisStore {}
+
+@Service({ bindTo: [STORE] })
+@ConditionalOnMissingBean(STORE)
+class InMemoryStore {}
+
+@Service({ bindTo: [AUDIT_LOG] })
+@ConditionalOnConfig('AUDIT_ENABLED')
+class AuditLog {}
+
+// Conditions read AppConfig, which loads the environment when it is initialized
+const withEnv = <T>(env: Record<string, string>, fn: () => T): T => {
+  Object.assign(process.env, env)
+  AppConfig.initialize(z.object({}))
+  try {
+    return fn()
+  } finally {
+    Object.keys(env).forEach((key) => delete process.env[key])
+    AppConfig.initialize(z.object({}))
+  }
+}
+
+describe('conditional components', () => {
+  test('@Profile activates components of the active profiles', () => {
+    const production = withEnv({ ACTIVE_PROFILES: 'api, production' }, () =>
+      container.fork().resolve(MAILER)
+    )
+    const development = withEnv({ ACTIVE_PROFILES: 'development' }, () =>
+      container.fork().resolve(MAILER)
+    )
+
+    assert.ok(production instanceof SmtpMailer)
+    assert.ok(development instanceof ConsoleMailer)
+  })
+
+  test('@ConditionalOnConfig compares the value, or checks that it is set', () => {
+    withEnv({ STORE_DRIVER: 'redis', AUDIT_ENABLED: 'true' }, () => {
+      const diContainer = container.fork()
+      assert.ok(diContainer.resolve(STORE) instanceof RedisStore)
+      assert.ok(diContainer.resolve(AUDIT_LOG) instanceof AuditLog)
+    })
+    withEnv({ STORE_DRIVER: 'memory', AUDIT_ENABLED: 'false' }, () => {
+      assert.equal(container.fork().isRegistered(AUDIT_LOG), false)
+    })
+  })
+
+  test('@ConditionalOnMissingBean provides a default that other providers replace', () => {
+    const replaced = withEnv({ STORE_DRIVER: 'redis' }, () => container.fork().resolve(STORE))
+    const fallback = withEnv({ STORE_DRIVER: 'memory' }, () => container.fork().resolve(STORE))
+
+    assert.ok(replaced instanceof RedisStore)
+    assert.ok(fallback instanceof InMemoryStore)
+  })
+
+  test('rejects conditions placed above @Service()', () => {
+    assert.throws(() => {
+      @Conditional(() => true)
+      @Service()
+      class MisplacedCondition {}
+      return MisplacedCondition
+    }, /Conditions on 'MisplacedCondition' must be placed below its @Service\(\) \/ @Component\(\) decorator/)
+  })
+})
@@ -0,0 +1,114 @@
+import './setup'
+import assert from 'node:assert/strict'
+import { describe, test } from 'node:test'
+import { Autowired, Controller, Get } from '../src/core/decorators'
+import { Container } from '../src/core/di-container'
+import { Module, resolveModuleGraph } from '../src/core/module'
+import { Test } from '../src/testing'
+
+const DB_POOL = Symbol('DbPool')
+
+interface Pool {
+  connected: boolean
+}
+
+// Not an `async function`: the promise is only known from the returned value
+const connect = (): Promise<Pool> => new Promise((resolve) => setImmediate(() => resolve({ connected: true })))
+
+@Controller('/pool')
+class PoolController {
+  constructor(@Autowired(DB_POOL) private readonly pool: Pool) {}
+
+  @Get('/')
+  show() {
+    return this.pool
+  }
+}
+
+describe('async factories', () => {
+  test('init() awaits the promise a singleton factory returns', async () => {
+    const diContainer = new Container()
+    let calls = 0
+    diContainer.register(DB_POOL, { useFactory: () => (calls++, connect()) })
+
+    await diContainer.init()
+
+    assert.deepEqual(diContainer.resolve(DB_POOL), { connected: true })
+    assert.equal(calls, 1)
+  })
+
+  test('never calls a pending factory again', async () => {
+    const diContainer = new Container()
+    let calls = 0
+    diContainer.register(DB_POOL, { useFactory: () => (calls++, connect()) })
+
+    assert.throws(() => diContainer.resolve(DB_POOL), /is asynchronous/)
+    assert.throws(() => diContainer.resolve(DB_POOL), /is asynchronous/)
+    const pool = await diContainer.resolveAsync<Pool>(DB_POOL)
+
+    assert.equal(calls, 1)
+    assert.equal(diContainer.resolve(DB_POOL), pool)
+  })
+
+  test('rejects promises of transient factories once', () => {
+    const diContainer = new Container()
+    let calls = 0
+    diContainer.register(DB_POOL, { useFactory: () => (calls++, connect()), scope: 'transient' })
+
+    assert.throws(() => diContainer.resolve(DB_POOL), /Only 'singleton' factories/)
+    assert.throws(() => diContainer.resolve(DB_POOL), /Only 'singleton' factories/)
+    assert.equal(calls, 1)
+  })
+
+  test('injects async providers into controllers of a built app', async () => {
+    const moduleRef = await Test.createModule({
+      controllers: [PoolController],
+      providers: [{ provide: DB_POOL, useFactory: () => Promise.resolve({ connected: true }) }],
+    }).compile()
+    const response = await moduleRef.app.inject({ method: 'GET', url: '/pool' })
+    await moduleRef.close()
+
+    assert.equal(response.statusCode, 200)
+    assert.deepEqual(response.json(), { connected: true })
+  })
+})
+
+describe('dependency validation', () => {
+  const CLOCK = Symbol('Clock')
+  const REPORTER = Symbol('Reporter')
+  const CURRENT_USER = Symbol('CurrentUser')
+
+  test('reports singletons capturing transient providers', () => {
+    const diContainer = new Container()
+    diContainer.register(CLOCK, { useFactory: () => ({ now: Date.now() }), scope: 'transient' })
+    diContainer.register(REPORTER, { useFactory: (clock) => ({ clock }), inject: [CLOCK] })
+
+    const result = diContainer.validate()
+
+    assert.equal(result.valid, false)
+    assert.deepEqual(result.scopeMismatches, [
+      { token: REPORTER, scope: 'singleton', dependency: CLOCK, dependencyScope: 'transient' },
+    ])
+  })
+
+  test('reports request-scoped providers captured across module boundaries', () => {
+    @Module({
+      providers: [{ provide: CURRENT_USER, useFactory: () => ({ id: 1 }), scope: 'request' }],
+      exports: [CURRENT_USER],
+    })
+    class UserModule {}
+
+    @Module({
+      imports: [UserModule],
+      providers: [{ provide: REPORTER, useFactory: (user) => ({ user }), inject: [CURRENT_USER] }],
+    })
+    class ReportModule {}
+
+    const [, reportModule] = resolveModuleGraph([ReportModule], new Container())
+    const result = reportModule.container.validate(false)
+
+    assert.deepEqual(result.scopeMismatches, [
+      { token: REPORTER, scope: 'singleton', dependency: CURRENT_USER, dependencyScope: 'request' },
+    ])
+  })
+})
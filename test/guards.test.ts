@@ -0,0 +1,80 @@
+import './setup'
+import assert from 'node:assert/strict'
+import { describe, test } from 'node:test'
+import { z } from 'zod'
+import { Body, Controller, Get, Param, Post, Schema, UseMiddleware } from '../src/core/decorators'
+import { UnauthorizedException } from '../src/core/errors'
+import { ExecutionContext } from '../src/core/execution-context'
+import { CanActivate, UseGuards } from '../src/core/guards'
+import { Test } from '../src/testing'
+
+class ApiKeyGuard implements CanActivate {
+  canActivate(context: ExecutionContext) {
+    const apiKey = context.getRequest().headers['x-api-key']
+    if (!apiKey) throw new UnauthorizedException('Missing API key')
+    return apiKey === 'admin'
+  }
+}
+
+@Controller('/orders')
+@UseGuards(ApiKeyGuard)
+class OrderController {
+  @Post('/')
+  @Schema({ body: z.object({ product: z.string(), quantity: z.number().int().positive() }) })
+  create(@Body() order: { product: string; quantity: number }) {
+    return order
+  }
+}
+
+const middlewareCalls: unknown[] = []
+
+@Controller('/invoices')
+@UseGuards(ApiKeyGuard)
+class InvoiceController {
+  @Get('/:id')
+  @Schema({ params: z.object({ id: z.number().int() }) })
+  @UseMiddleware(async (request) => {
+    middlewareCalls.push((request.params as { id: unknown }).id)
+  })
+  show(@Param('id') id: number) {
+    return { id }
+  }
+}
+
+describe('guards', () => {
+  const post = async (headers: Record<string, string>, payload: Record<string, unknown>) => {
+    const moduleRef = await Test.createModule({ controllers: [OrderController] }).compile()
+    const response = await moduleRef.app.inject({ method: 'POST', url: '/orders', headers, payload })
+    await moduleRef.close()
+    return response
+  }
+
+  test('reject requests before their body is validated', async () => {
+    const unauthenticated = await post({}, { quantity: -1 })
+    const forbidden = await post({ 'x-api-key': 'guest' }, { quantity: -1 })
+
+    assert.equal(unauthenticated.statusCode, 401)
+    assert.equal(unauthenticated.json().errors, undefined)
+    assert.equal(forbidden.statusCode, 403)
+  })
+
+  test('let allowed requests through to validation and the handler', async () => {
+    const invalid = await post({ 'x-api-key': 'admin' }, { quantity: -1 })
+    const valid = await post({ 'x-api-key': 'admin' }, { product: 'book', quantity: 2 })
+
+    assert.equal(invalid.statusCode, 400)
+    assert.equal(valid.statusCode, 200)
+    assert.deepEqual(valid.json(), { product: 'book', quantity: 2 })
+  })
+
+  test('run before route middleware, which gets the validated request', async () => {
+    const moduleRef = await Test.createModule({ controllers: [InvoiceController] }).compile()
+    const forbidden = await moduleRef.app.inject({ url: '/invoices/7', headers: { 'x-api-key': 'guest' } })
+    const allowed = await moduleRef.app.inject({ url: '/invoices/7', headers: { 'x-api-key': 'admin' } })
+    await moduleRef.close()
+
+    assert.equal(forbidden.statusCode, 403)
+    assert.equal(allowed.statusCode, 200)
+    assert.deepEqual(middlewareCalls, [7])
+  })
+})
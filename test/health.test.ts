@@ -0,0 +1,35 @@
+import './setup'
+import assert from 'node:assert/strict'
+import { describe, test } from 'node:test'
+import { createBootify } from '../src/BootifyApp'
+import { container } from '../src/core/di-container'
+import { HealthIndicator, HealthService } from '../src/health'
+
+const database: HealthIndicator = {
+  name: 'database',
+  check: () => ({ status: 'up' }),
+}
+
+describe('health checks', () => {
+  test('keep the readiness and indicators of each app apart', async () => {
+    const first = createBootify()
+      .useContainer(container.createChild())
+      .useHealthChecks({ indicators: [database] })
+    const second = createBootify()
+      .useContainer(container.createChild())
+      .useHealthChecks({ indicators: [database] })
+    await first.build()
+    const { app } = await second.build()
+
+    await first.shutdown()
+    const response = await app.inject({ method: 'GET', url: '/health/ready' })
+    const indicators = second.getContainer().resolve<HealthService>(HealthService).getIndicators()
+    await second.shutdown()
+
+    assert.equal(response.json().reason, 'Application is starting')
+    assert.deepEqual(
+      indicators.filter((indicator) => indicator === database),
+      [database]
+    )
+  })
+})
@@ -0,0 +1,36 @@
+import './setup'
+import assert from 'node:assert/strict'
+import { describe, test } from 'node:test'
+import { Service } from '../src/core/decorators'
+import { OnInit } from '../src/core/di-container'
+import { HEALTH_INDICATOR, HealthIndicator, HealthIndicatorResult } from '../src/health'
+import { Test } from '../src/testing'
+
+// Only created when the health service is, after the routes are registered
+@Service({ bindTo: [HEALTH_INDICATOR], multi: true })
+class StartupIndicator implements HealthIndicator, OnInit {
+  readonly name = 'startup'
+  readonly probes = ['liveness' as const]
+  private initialized = false
+
+  onInit() {
+    this.initialized = true
+  }
+
+  check(): HealthIndicatorResult {
+    return { status: this.initialized ? 'up' : 'down' }
+  }
+}
+
+describe('lifecycle hooks', () => {
+  test('calls onInit on singletons created by framework services', async () => {
+    const moduleRef = await Test.createModule({})
+      .configure((app) => app.useHealthChecks())
+      .compile()
+    const response = await moduleRef.app.inject({ method: 'GET', url: '/health/live' })
+    await moduleRef.close()
+
+    assert.equal(response.statusCode, 200)
+    assert.equal(response.json().checks.startup.status, 'up')
+  })
+})
@@ -0,0 +1,122 @@
+import './setup'
+import assert from 'node:assert/strict'
+import { describe, test } from 'node:test'
+import { Autowired, Controller, Get } from '../src/core/decorators'
+import { Container } from '../src/core/di-container'
+import { Module, resolveModuleGraph } from '../src/core/module'
+import { Test } from '../src/testing'
+
+const CONNECTION_URL = Symbol('ConnectionUrl')
+
+class Database {
+  constructor(@Autowired(CONNECTION_URL) readonly url: string) {}
+}
+
+class UserRepository {
+  constructor(@Autowired(Database) readonly database: Database) {}
+}
+
+@Module({
+  providers: [Database, { provide: CONNECTION_URL, useValue: 'postgres://primary' }],
+  exports: [Database],
+})
+class DatabaseModule {}
+
+@Module({ imports: [DatabaseModule], providers: [UserRepository], exports: [UserRepository] })
+class UserModule {}
+
+@Controller('/module-users')
+class UserController {
+  constructor(private readonly users: UserRepository) {}
+
+  @Get('/')
+  show() {
+    return { url: this.users.database.url }
+  }
+}
+
+describe('module graph', () => {
+  test('resolves imports first and shares exported instances with importing modules', () => {
+    const [databaseModule, userModule] = resolveModuleGraph([UserModule], new Container())
+
+    assert.equal(databaseModule.module, DatabaseModule)
+    assert.equal(userModule.module, UserModule)
+    assert.equal(
+      userModule.container.resolve<UserRepository>(UserRepository).database,
+      databaseModule.container.resolve(Database)
+    )
+  })
+
+  test('rejects import cycles', () => {
+    class OrdersModule {}
+    class BillingModule {}
+    Module({ imports: [BillingModule] })(OrdersModule)
+    Module({ imports: [OrdersModule] })(BillingModule)
+
+    assert.throws(
+      () => resolveModuleGraph([OrdersModule], new Container()),
+      /Circular module import detected: OrdersModule -> BillingModule -> OrdersModule/
+    )
+  })
+
+  test('rejects dependencies on providers a module does not export or import', () => {
+    @Module({ providers: [Database, { provide: CONNECTION_URL, useValue: 'postgres://primary' }] })
+    class PrivateDatabaseModule {}
+    @Module({ imports: [PrivateDatabaseModule], providers: [UserRepository] })
+    class NotExportedModule {}
+    @Module({ providers: [UserRepository] })
+    class NotImportedModule {}
+
+    assert.throws(
+      () => resolveModuleGraph([NotExportedModule], new Container()),
+      /'UserRepository' in 'NotExportedModule' depends on 'Database' from 'PrivateDatabaseModule', but 'PrivateDatabaseModule' does not export it/
+    )
+    assert.throws(
+      () => resolveModuleGraph([DatabaseModule, NotImportedModule], new Container()),
+      /'UserRepository' in 'NotImportedModule' depends on 'Database' from 'DatabaseModule', but 'NotImportedModule' does not import 'DatabaseModule'/
+    )
+  })
+
+  test('rejects exports a module neither provides nor imports', () => {
+    @Module({ exports: [Database] })
+    class EmptyModule {}
+
+    assert.throws(
+      () => resolveModuleGraph([EmptyModule], new Container()),
+      /'EmptyModule' exports 'Database', which it neither provides nor imports/
+    )
+  })
+
+  test('re-exports the providers of an imported module', () => {
+    @Module({ imports: [DatabaseModule], exports: [DatabaseModule] })
+    class CoreModule {}
+    @Module({ imports: [CoreModule], providers: [UserRepository] })
+    class ReportsModule {}
+
+    const modules = resolveModuleGraph([ReportsModule], new Container())
+    const databaseModule = modules.find((ref) => ref.module === DatabaseModule)!
+    const reportsModule = modules.find((ref) => ref.module === ReportsModule)!
+
+    assert.equal(
+      reportsModule.container.resolve<UserRepository>(UserRepository).database,
+      databaseModule.container.resolve(Database)
+    )
+  })
+
+  test('replaces module providers with overrides', () => {
+    const overrides = new Map([[CONNECTION_URL, { useValue: 'postgres://test' }]])
+    const [databaseModule] = resolveModuleGraph([DatabaseModule], new Container(), overrides)
+
+    assert.equal(databaseModule.container.resolve<Database>(Database).url, 'postgres://test')
+  })
+
+  test('strict validation accepts providers that only their module registers', async () => {
+    const moduleRef = await Test.createModule({ imports: [UserModule], controllers: [UserController] })
+      .configure((app) => app.useDependencyValidation('strict'))
+      .compile()
+    const response = await moduleRef.app.inject({ method: 'GET', url: '/module-users' })
+    await moduleRef.close()
+
+    assert.deepEqual(response.json(), { url: 'postgres://primary' })
+  })
+})
@@ -0,0 +1,71 @@
+import './setup'
+import assert from 'node:assert/strict'
+import { describe, test } from 'node:test'
+import { z } from 'zod'
+import { Body, Controller, Post, Schema } from '../src/core/decorators'
+import { FileUpload, UploadedFile } from '../src/core/multipart'
+import { Test } from '../src/testing'
+
+@Controller('/avatars')
+class AvatarController {
+  @Post('/')
+  @Schema({ body: z.object({ caption: z.string() }) })
+  upload(
+    @UploadedFile('avatar', { mimeTypes: ['image/*'] }) avatar: FileUpload,
+    @Body() body: { caption: string }
+  ) {
+    return { caption: body.caption, filename: avatar.filename, size: avatar.size }
+  }
+}
+
+const boundary = 'bootify-test-boundary'
+
+const multipartBody = (parts: { name: string; value: string; filename?: string; type?: string }[]) =>
+  parts
+    .map(
+      (part) =>
+        `--${boundary}\r\n` +
+        `Content-Disposition: form-data; name="${part.name}"` +
+        (part.filename ? `; filename="${part.filename}"\r\nContent-Type: ${part.type}` : '') +
+        `\r\n\r\n${part.value}\r\n`
+    )
+    .join('') + `--${boundary}--\r\n`
+
+describe('multipart uploads', () => {
+  const upload = async (payload: string) => {
+    const moduleRef = await Test.createModule({ controllers: [AvatarController] }).compile()
+    const response = await moduleRef.app.inject({
+      method: 'POST',
+      url: '/avatars',
+      headers: { 'content-type': `multipart/form-data; boundary=${boundary}` },
+      payload,
+    })
+    await moduleRef.close()
+    return response
+  }
+
+  test('inject the uploaded file and validate the other fields as the body', async () => {
+    const response = await upload(
+      multipartBody([
+        { name: 'caption', value: 'me' },
+        { name: 'avatar', value: 'png-bytes', filename: 'me.png', type: 'image/png' },
+      ])
+    )
+
+    assert.equal(response.statusCode, 200)
+    assert.deepEqual(response.json(), { caption: 'me', filename: 'me.png', size: 9 })
+  })
+
+  test('reject files of other types and requests without the file', async () => {
+    const wrongType = await upload(
+      multipartBody([
+        { name: 'caption', value: 'me' },
+        { name: 'avatar', value: 'text', filename: 'me.txt', type: 'text/plain' },
+      ])
+    )
+    const missing = await upload(multipartBody([{ name: 'caption', value: 'me' }]))
+
+    assert.equal(wrongType.statusCode, 415)
+    assert.equal(missing.statusCode, 400)
+  })
+})
@@ -0,0 +1,32 @@
+import './setup'
+import assert from 'node:assert/strict'
+import { describe, test } from 'node:test'
+import { Controller, Get } from '../src/core/decorators'
+import { Test } from '../src/testing'
+
+@Controller('/books')
+class BookController {
+  @Get('/')
+  list() {
+    return []
+  }
+}
+
+describe('OpenAPI UI', () => {
+  test('serves the Swagger UI assets itself', async () => {
+    const moduleRef = await Test.createModule({ controllers: [BookController] })
+      .configure((app) => app.enableOpenApi({ path: '/docs' }))
+      .compile()
+    const page = await moduleRef.app.inject({ method: 'GET', url: '/docs' })
+    const script = await moduleRef.app.inject({ method: 'GET', url: '/docs/static/swagger-ui-bundle.js' })
+    const styles = await moduleRef.app.inject({ method: 'GET', url: '/docs/static/swagger-ui.css' })
+    await moduleRef.close()
+
+    assert.equal(page.statusCode, 200)
+    assert.match(page.body, /src="\/docs\/static\/swagger-ui-bundle\.js"/)
+    assert.doesNotMatch(page.body, /https?:\/\//)
+    assert.equal(script.statusCode, 200)
+    assert.match(String(script.headers['content-type']), /javascript/)
+    assert.equal(styles.statusCode, 200)
+  })
+})
@@ -0,0 +1,70 @@
+import './setup'
+import assert from 'node:assert/strict'
+import { describe, test } from 'node:test'
+import { z } from 'zod'
+import { createBootify } from '../src/BootifyApp'
+import { Controller, Get, Service } from '../src/core/decorators'
+import { Scope } from '../src/core/di-container'
+import { RequestContextService } from '../src/core/request-context.service'
+import { createContextMiddleware } from '../src/middleware/context.middleware'
+
+let created = 0
+
+@Service({ scope: Scope.REQUEST })
+class RequestCounter {
+  readonly id = ++created
+}
+
+@Controller('/request-scope', { scope: 'request' })
+class RequestScopedController {
+  constructor(private readonly counter: RequestCounter, private readonly context: RequestContextService) {}
+
+  @Get('/')
+  show() {
+    return { counter: this.counter.id, requestId: this.context.get('requestId') }
+  }
+}
+
+@Controller('/tenant')
+class TenantController {
+  constructor(private readonly context: RequestContextService) {}
+
+  @Get('/')
+  show() {
+    return { tenant: this.context.get('tenant') ?? null, region: this.context.get('region') ?? null }
+  }
+}
+
+describe('request scope', () => {
+  test('serves request-scoped controllers built by createBootify()', async () => {
+    const { app } = await createBootify()
+      .useConfig(z.object({}))
+      .useControllers([RequestScopedController])
+      .build()
+
+    const first = await app.inject({ method: 'GET', url: '/request-scope' })
+    const second = await app.inject({ method: 'GET', url: '/request-scope' })
+    await app.close()
+
+    assert.equal(first.statusCode, 200)
+    assert.equal(second.statusCode, 200)
+    assert.notEqual(first.json().counter, second.json().counter)
+    assert.equal(first.json().requestId, first.headers['x-request-id'])
+  })
+
+  test('adds the values of a context middleware registered by the app to the request context', async () => {
+    const { app } = await createBootify()
+      .useConfig(z.object({}))
+      .useContextExtractor(() => ({ region: 'eu' }))
+      .usePlugin((app) => {
+        app.addHook('onRequest', createContextMiddleware((req) => ({ tenant: req.headers['x-tenant-id'] })))
+      })
+      .useControllers([TenantController])
+      .build()
+
+    const response = await app.inject({ method: 'GET', url: '/tenant', headers: { 'x-tenant-id': 'acme' } })
+    await app.close()
+
+    assert.deepEqual(response.json(), { tenant: 'acme', region: 'eu' })
+  })
+})
@@ -0,0 +1,10 @@
+import 'reflect-metadata'
+import { z } from 'zod'
+import { AppConfig } from '../src/config/AppConfig'
+
+// The test runner reads each file's results from its stdout, so apps under test
+// only log errors
+process.env.LOG_LEVEL = 'error'
+
+// BootifyApp reads the config while building, so tests start from an empty schema
+AppConfig.initialize(z.object({}))
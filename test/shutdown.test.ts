@@ -0,0 +1,75 @@
+import './setup'
+import assert from 'node:assert/strict'
+import { describe, test } from 'node:test'
+import { createBootify } from '../src/BootifyApp'
+import { ILogTransport, LogEntry } from '../src/logging'
+
+const sleep = (ms: number) => new Promise<void>((resolve) => setTimeout(resolve, ms))
+
+class RecordingTransport implements ILogTransport {
+  readonly name = 'recording'
+  messages: string[] = []
+  flushed = false
+  closed = false
+
+  write(entry: LogEntry) {
+    this.messages.push(entry.message)
+  }
+
+  // Takes a moment, like a transport sending its buffered entries
+  async flush() {
+    await sleep(20)
+    this.flushed = true
+  }
+
+  async close() {
+    this.closed = true
+  }
+}
+
+describe('graceful shutdown', () => {
+  test('run shutdown hooks in order, then flush the logs', async () => {
+    const calls: string[] = []
+    const transport = new RecordingTransport()
+    const bootify = createBootify()
+      .useLogger((builder) => builder.setLevel('info').disableConsole().addTransport(transport))
+      .onShutdown((signal) => {
+        calls.push(`first ${signal}`)
+      })
+      .onShutdown(async () => {
+        calls.push('second')
+      })
+    await bootify.build()
+
+    const exitCode = await bootify.shutdown('SIGTERM')
+
+    assert.equal(exitCode, 0)
+    assert.deepEqual(calls, ['first SIGTERM', 'second'])
+    assert.ok(transport.messages.includes('Shutdown complete'))
+    assert.ok(transport.flushed && transport.closed)
+  })
+
+  test('flush the logs after a shutdown that passed its deadline', async () => {
+    const transport = new RecordingTransport()
+    const bootify = createBootify()
+      .useLogger((builder) => builder.disableConsole().addTransport(transport))
+      .useGracefulShutdown({ timeout: 200 })
+      .onShutdown(() => sleep(300))
+    await bootify.build()
+
+    const exitCode = await bootify.shutdown()
+
+    assert.equal(exitCode, 1)
+    assert.ok(transport.flushed && transport.closed)
+  })
+
+  test('only run the shutdown hooks before the app is built', async () => {
+    const calls: string[] = []
+    const bootify = createBootify().onShutdown(() => {
+      calls.push('hook')
+    })
+
+    assert.equal(await bootify.shutdown(), 0)
+    assert.deepEqual(calls, ['hook'])
+  })
+})
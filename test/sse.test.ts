@@ -0,0 +1,68 @@
+import './setup'
+import assert from 'node:assert/strict'
+import { request, ServerResponse } from 'node:http'
+import { AddressInfo } from 'node:net'
+import { describe, test } from 'node:test'
+import { setTimeout as sleep } from 'node:timers/promises'
+import { Controller } from '../src/core/decorators'
+import { AsyncEventQueue, Sse, SseMessage } from '../src/core/sse'
+import { Test } from '../src/testing'
+
+let queueClosed = false
+
+@Controller('/events')
+class EventController {
+  // Sources that never emit, like quiet event streams
+  @Sse('/queue', { heartbeatInterval: 10 })
+  queue() {
+    return new AsyncEventQueue<SseMessage>(() => (queueClosed = true))
+  }
+
+  @Sse('/generator', { heartbeatInterval: 10 })
+  async *generator(): AsyncGenerator<SseMessage> {
+    await new Promise(() => undefined)
+  }
+}
+
+async function openAndDisconnect(port: number, path: string): Promise<void> {
+  await new Promise<void>((resolve, reject) => {
+    const req = request({ port, host: '127.0.0.1', path }, (response) => {
+      response.once('data', () => {
+        req.destroy()
+        resolve()
+      })
+    })
+    req.on('error', () => undefined)
+    req.end()
+    setTimeout(() => reject(new Error('No event stream')), 2000).unref()
+  })
+  // Let the server see the connection close
+  await sleep(30)
+}
+
+describe('server-sent events', () => {
+  test('closes the source and stops the heartbeat when the client disconnects', async () => {
+    const moduleRef = await Test.createModule({ controllers: [EventController] }).compile()
+    await moduleRef.app.listen({ port: 0, host: '127.0.0.1' })
+    const { port } = moduleRef.app.server.address() as AddressInfo
+
+    let writes = 0
+    const write = ServerResponse.prototype.write
+    ServerResponse.prototype.write = function (this: ServerResponse, ...args: any[]) {
+      writes++
+      return (write as any).apply(this, args)
+    }
+    try {
+      await openAndDisconnect(port, '/events/queue')
+      await openAndDisconnect(port, '/events/generator')
+      const writesAfterClose = writes
+      await sleep(50)
+
+      assert.equal(queueClosed, true)
+      assert.equal(writes, writesAfterClose)
+    } finally {
+      ServerResponse.prototype.write = write
+      await moduleRef.close()
+    }
+  })
+})
@@ -0,0 +1,65 @@
+import './setup'
+import assert from 'node:assert/strict'
+import { describe, test } from 'node:test'
+import { Controller, Get, Service } from '../src/core/decorators'
+import { OnShutdown } from '../src/core/di-container'
+import { Test } from '../src/testing'
+
+@Service()
+class GreetingService {
+  greet(name: string) {
+    return `Hello, ${name}`
+  }
+}
+
+const shutdownCalls: string[] = []
+
+@Service()
+class ShutdownTracker implements OnShutdown {
+  onShutdown() {
+    shutdownCalls.push('tracker')
+  }
+}
+
+@Controller('/greetings')
+class GreetingController {
+  constructor(private readonly greetings: GreetingService, private readonly tracker: ShutdownTracker) {}
+
+  @Get('/')
+  greet() {
+    return { message: this.greetings.greet('world') }
+  }
+}
+
+describe('Test.createModule', () => {
+  test('serves controllers through inject()', async () => {
+    const moduleRef = await Test.createModule({ controllers: [GreetingController] }).compile()
+    const response = await moduleRef.app.inject({ method: 'GET', url: '/greetings' })
+
+    assert.equal(response.statusCode, 200)
+    assert.deepEqual(response.json(), { message: 'Hello, world' })
+    await moduleRef.close()
+  })
+
+  test('replaces providers with overrides, without leaking them', async () => {
+    const moduleRef = await Test.createModule({ controllers: [GreetingController] })
+      .overrideProvider(GreetingService)
+      .useValue({ greet: () => 'mocked' })
+      .compile()
+    const response = await moduleRef.app.inject({ method: 'GET', url: '/greetings' })
+    await moduleRef.close()
+
+    assert.deepEqual(response.json(), { message: 'mocked' })
+    const other = await Test.createModule({ controllers: [GreetingController] }).compile()
+    assert.equal(other.get<GreetingService>(GreetingService).greet('a'), 'Hello, a')
+    await other.close()
+  })
+
+  test('runs OnShutdown hooks on close()', async () => {
+    shutdownCalls.length = 0
+    const moduleRef = await Test.createModule({ controllers: [GreetingController] }).compile()
+    await moduleRef.close()
+
+    assert.deepEqual(shutdownCalls, ['tracker'])
+  })
+})
@@ -0,0 +1,48 @@
+import './setup'
+import assert from 'node:assert/strict'
+import { describe, test } from 'node:test'
+import { z } from 'zod'
+import { Controller, Get, Param, Query, Schema } from '../src/core/decorators'
+import { Test } from '../src/testing'
+
+@Controller('/items')
+class ItemController {
+  @Get('/:id')
+  @Schema({
+    params: z.object({ id: z.number().int() }),
+    query: z.object({
+      dryRun: z.boolean().default(false),
+      limit: z.number().optional(),
+      tags: z.array(z.string()).optional(),
+    }),
+  })
+  show(@Param('id') id: number, @Query() query: Record<string, unknown>) {
+    return { id, ...query }
+  }
+}
+
+describe('request validation', () => {
+  test('converts query strings and params to the types of their schema', async () => {
+    const moduleRef = await Test.createModule({ controllers: [ItemController] }).compile()
+    const response = await moduleRef.app.inject({
+      method: 'GET',
+      url: '/items/42?dryRun=false&limit=10&tags=a',
+    })
+    await moduleRef.close()
+
+    assert.equal(response.statusCode, 200)
+    assert.deepEqual(response.json(), { id: 42, dryRun: false, limit: 10, tags: ['a'] })
+  })
+
+  test('rejects values that do not convert', async () => {
+    const moduleRef = await Test.createModule({ controllers: [ItemController] }).compile()
+    const invalidParam = await moduleRef.app.inject({ method: 'GET', url: '/items/abc' })
+    const invalidQuery = await moduleRef.app.inject({ method: 'GET', url: '/items/1?dryRun=maybe' })
+    await moduleRef.close()
+
+    assert.equal(invalidParam.statusCode, 400)
+    assert.equal(invalidParam.json().errors[0].path, 'id')
+    assert.equal(invalidQuery.statusCode, 400)
+    assert.equal(invalidQuery.json().errors[0].path, 'dryRun')
+  })
+})
@@ -0,0 +1,71 @@
+import './setup'
+import assert from 'node:assert/strict'
+import { describe, test } from 'node:test'
+import { Controller, Get } from '../src/core/decorators'
+import { Version, VersioningOptions } from '../src/core/versioning'
+import { Test } from '../src/testing'
+
+@Controller('/catalog')
+@Version('1')
+class CatalogControllerV1 {
+  @Get('/')
+  list() {
+    return { version: '1' }
+  }
+}
+
+@Controller('/catalog')
+@Version('2')
+class CatalogControllerV2 {
+  @Get('/')
+  list() {
+    return { version: '2' }
+  }
+}
+
+describe('API versioning', () => {
+  const compile = (versioning: VersioningOptions) =>
+    Test.createModule({ controllers: [CatalogControllerV1, CatalogControllerV2] })
+      .configure((app) => app.enableVersioning(versioning))
+      .compile()
+
+  test('uri: serves each version under its path segment, with deprecation headers', async () => {
+    const sunset = new Date('2030-01-01T00:00:00Z')
+    const moduleRef = await compile({ type: 'uri', deprecations: { '1': { sunset } } })
+    const v1 = await moduleRef.app.inject({ url: '/v1/catalog' })
+    const v2 = await moduleRef.app.inject({ url: '/v2/catalog' })
+    await moduleRef.close()
+
+    assert.deepEqual(v1.json(), { version: '1' })
+    assert.equal(v1.headers.deprecation, 'true')
+    assert.equal(v1.headers.sunset, sunset.toUTCString())
+    assert.deepEqual(v2.json(), { version: '2' })
+    assert.equal(v2.headers.deprecation, undefined)
+  })
+
+  test('header: routes by the version header, or to the default version', async () => {
+    const moduleRef = await compile({ type: 'header', defaultVersion: '1' })
+    const requested = await moduleRef.app.inject({ url: '/catalog', headers: { 'x-api-version': '2' } })
+    const fallback = await moduleRef.app.inject({ url: '/catalog' })
+    await moduleRef.close()
+
+    assert.deepEqual(requested.json(), { version: '2' })
+    assert.deepEqual(fallback.json(), { version: '1' })
+  })
+
+  test('media-type: reads the Accept parameter named by the key, taken literally', async () => {
+    const moduleRef = await compile({ type: 'media-type', key: 'api.v', defaultVersion: '1' })
+    const requested = await moduleRef.app.inject({
+      url: '/catalog',
+      headers: { accept: 'application/json; api.v=2' },
+    })
+    const otherParameter = await moduleRef.app.inject({
+      url: '/catalog',
+      headers: { accept: 'application/json; apixv=2' },
+    })
+    await moduleRef.close()
+
+    assert.deepEqual(requested.json(), { version: '2' })
+    assert.deepEqual(otherParameter.json(), { version: '1' })
+  })
+})
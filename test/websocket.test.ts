@@ -0,0 +1,31 @@
+import './setup'
+import assert from 'node:assert/strict'
+import { once } from 'node:events'
+import { describe, test } from 'node:test'
+import { z } from 'zod'
+import { Test } from '../src/testing'
+import { SubscribeMessage, WebSocketGateway } from '../src/websocket'
+
+@WebSocketGateway('/ws/echo')
+class EchoGateway {
+  @SubscribeMessage('echo', { schema: z.object({ text: z.string() }) })
+  echo(message: { text: string }) {
+    return { text: message.text.toUpperCase() }
+  }
+}
+
+describe('WebSocket gateways', () => {
+  test('answers messages with the handler result', async () => {
+    const moduleRef = await Test.createModule({})
+      .configure((app) => app.useWebSocketGateways([EchoGateway]))
+      .compile()
+    const socket = await moduleRef.app.injectWS('/ws/echo')
+
+    socket.send(JSON.stringify({ event: 'echo', id: 1, data: { text: 'hi' } }))
+    const [reply] = await once(socket, 'message')
+    socket.terminate()
+    await moduleRef.close()
+
+    assert.deepEqual(JSON.parse(String(reply)), { event: 'echo', id: 1, data: { text: 'HI' } })
+  })
+})